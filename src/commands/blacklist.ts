@@ -5,8 +5,9 @@ import {
   SlashCommandBuilder,
 } from 'discord.js'
 import { Effect, Either, Runtime } from 'effect'
-import type { MainLive } from '../services'
-import { type ApiError, ApiService, effectApi } from '../services/api'
+import { ChannelService, type MainLive } from '../services'
+import { type ApiFailure, ApiService, effectApi } from '../services/api'
+import { ConversationStore } from '../services/llm'
 import { hasManageChannelsPermissionFromInteraction } from '../utils/permissions'
 
 export const data = new SlashCommandBuilder()
@@ -23,10 +24,10 @@ export const data = new SlashCommandBuilder()
   )
 
 /**
- * Build appropriate error message based on ApiError
+ * Build appropriate error message based on the API failure
  */
-function buildErrorMessage(error: ApiError, channelId: string): string {
-  if (error.statusCode === 404) {
+function buildErrorMessage(error: ApiFailure, channelId: string): string {
+  if (error._tag === 'NotFound') {
     return `Channel <#${channelId}> was not found in the whitelist.`
   }
 
@@ -54,6 +55,15 @@ const blacklistChannelEffect = (
     // Remove channel from whitelist (delete from database)
     const result = yield* effectApi.channels.deleteChannel(channelId)
 
+    const channelService = yield* ChannelService
+    yield* channelService.invalidateChannel(channelId)
+
+    // The channel's conversation won't be continued
+    const conversationStore = yield* ConversationStore
+    yield* conversationStore
+      .deleteChannel(channelId)
+      .pipe(Effect.catchAll((error) => Effect.logWarning(error.message)))
+
     return result
   }).pipe(
     Effect.tapError((error) =>
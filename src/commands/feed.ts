@@ -10,7 +10,7 @@ import {
   ChannelService,
   type MainLive,
 } from '../services'
-import type { ApiError } from '../services/api/client'
+import type { ApiFailure } from '../services/api/client'
 import {
   buildFeedCooldownMessage,
   buildFeedSuccessMessage,
@@ -35,7 +35,7 @@ const executeFeedEffect = (
   channelId: string
 ): Effect.Effect<
   FeedResult,
-  ApiError | ChannelNotWhitelistedError,
+  ApiFailure | ChannelNotWhitelistedError,
   ApiService | ChannelService
 > =>
   Effect.gen(function* () {
@@ -7,7 +7,7 @@ import {
 import { Effect, Either, Runtime } from 'effect'
 import { buildLeaderboardEmbed } from '../embeds/leaderboard'
 import { ApiService, ChannelService, type MainLive } from '../services'
-import type { ApiError, LeaderboardEntry } from '../services/api/client'
+import type { ApiFailure, LeaderboardEntry } from '../services/api/client'
 
 const API_TIMEOUT = 2000
 
@@ -69,7 +69,7 @@ async function fetchUserDataConcurrently(
  */
 async function buildAndSendLeaderboard(
   interaction: ChatInputCommandInteraction,
-  entries: LeaderboardEntry[]
+  entries: readonly LeaderboardEntry[]
 ): Promise<void> {
   const userIds = entries.map((entry) => entry.userId)
 
@@ -109,7 +109,7 @@ async function buildAndSendLeaderboard(
 const fetchLeaderboardEffect = (
   guildId: string,
   userId: string
-): Effect.Effect<LeaderboardEntry[], ApiError, ApiService> =>
+): Effect.Effect<readonly LeaderboardEntry[], ApiFailure, ApiService> =>
   Effect.gen(function* () {
     const apiService = yield* ApiService
     const effectApi = apiService.effectApi
@@ -0,0 +1,138 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type ChatInputCommandInteraction,
+  ComponentType,
+  MessageFlags,
+  SlashCommandBuilder,
+} from 'discord.js'
+import { Duration, Effect, Either, Runtime } from 'effect'
+import type { MainLive } from '../services'
+import { ConversationStore } from '../services/llm'
+import { hasManageChannelsPermissionFromInteraction } from '../utils/permissions'
+
+export const data = new SlashCommandBuilder()
+  .setName('reset')
+  .setDescription(
+    "Clear Teto's memory of this channel's conversation (requires Manage Channels permission)"
+  )
+
+const CONFIRM_ID = 'reset-confirm'
+const CANCEL_ID = 'reset-cancel'
+
+// How long the buttons wait for an answer
+const CONFIRMATION_TIMEOUT = Duration.minutes(1)
+
+/**
+ * Effect-based reset operation
+ */
+const resetChannelEffect = (
+  channelId: string,
+  userId: string,
+  guildId: string
+) =>
+  Effect.gen(function* () {
+    const conversationStore = yield* ConversationStore
+    const existed = yield* conversationStore.resetThread(channelId)
+
+    yield* Effect.logInfo(
+      `User ${userId} reset the conversation in channel ${channelId} of guild ${guildId}`
+    )
+
+    return existed
+  }).pipe(
+    Effect.tapError((error) =>
+      Effect.logError(
+        `Failed to reset the conversation in channel ${channelId}: ${error.message}`
+      )
+    )
+  )
+
+export async function execute(
+  runtime: Runtime.Runtime<never>,
+  live: typeof MainLive,
+  interaction: ChatInputCommandInteraction
+) {
+  if (!interaction.guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a server.',
+      flags: MessageFlags.Ephemeral,
+    })
+    return
+  }
+
+  // Check permissions
+  if (!hasManageChannelsPermissionFromInteraction(interaction)) {
+    await interaction.reply({
+      content: 'You need the "Manage Channels" permission to use this command.',
+      flags: MessageFlags.Ephemeral,
+    })
+    return
+  }
+
+  const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(CONFIRM_ID)
+      .setLabel('Reset')
+      .setStyle(ButtonStyle.Danger),
+    new ButtonBuilder()
+      .setCustomId(CANCEL_ID)
+      .setLabel('Cancel')
+      .setStyle(ButtonStyle.Secondary)
+  )
+
+  const response = await interaction.reply({
+    content: `Teto will forget the whole conversation in <#${interaction.channelId}>, including its summary. Are you sure?`,
+    components: [buttons],
+    flags: MessageFlags.Ephemeral,
+    withResponse: true,
+  })
+
+  // Only the member who ran the command can answer
+  const confirmation = await response.resource?.message
+    ?.awaitMessageComponent({
+      componentType: ComponentType.Button,
+      filter: (button) => button.user.id === interaction.user.id,
+      time: Duration.toMillis(CONFIRMATION_TIMEOUT),
+    })
+    .catch(() => undefined)
+
+  if (!confirmation) {
+    await interaction.editReply({
+      content: 'No confirmation received, the conversation was kept.',
+      components: [],
+    })
+    return
+  }
+
+  if (confirmation.customId === CANCEL_ID) {
+    await confirmation.update({
+      content: 'Reset cancelled, the conversation was kept.',
+      components: [],
+    })
+    return
+  }
+
+  // Convert Effect to Either and run it
+  const program = resetChannelEffect(
+    interaction.channelId,
+    interaction.user.id,
+    interaction.guildId
+  ).pipe(Effect.either, Effect.provide(live))
+  const result = await Runtime.runPromise(runtime)(program)
+
+  if (Either.isLeft(result)) {
+    await confirmation.update({
+      content: 'Failed to reset the conversation. Please try again later.',
+      components: [],
+    })
+  } else {
+    await confirmation.update({
+      content: result.right
+        ? `Teto's memory of <#${interaction.channelId}> has been cleared.`
+        : `There was no conversation to clear in <#${interaction.channelId}>.`,
+      components: [],
+    })
+  }
+}
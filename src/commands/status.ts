@@ -67,14 +67,14 @@ async function executeStatusCommand(
     }
 
     const status = {
-      messageCredits: Number.parseInt(user.messageCredits),
+      messageCredits: user.messageCredits,
       hasVoted,
     }
 
     const maybeMetrics = userGuild
       ? {
           intimacy: userGuild.intimacy,
-          dailyMessageCount: Number.parseInt(userGuild.dailyMessageCount),
+          dailyMessageCount: userGuild.dailyMessageCount,
         }
       : null
 
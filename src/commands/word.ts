@@ -8,7 +8,8 @@ import { Effect, Either, Option, Runtime } from 'effect'
 import { v4 as uuidv4 } from 'uuid'
 import { ChannelService, type MainLive } from '../services'
 import { ApiService } from '../services'
-import { effectApi } from '../services/api/client'
+import { replyToInteraction } from '../services/discord'
+import { formatUserMemories } from '../services/llm/memory'
 import { LLMConversationModelContext } from '../services/llm/model'
 import {
   buildWordOfTheDayMessage,
@@ -53,6 +54,7 @@ export async function execute(
 
   const program = Effect.gen(function* () {
     // Get today's word
+    const { effectApi } = yield* ApiService
     const wordResponseRes = yield* effectApi.wordOfTheDay
       .getTodaysWord()
       .pipe(Effect.either)
@@ -75,6 +77,7 @@ export async function execute(
         messages: [userMessage],
         username: username,
         intimacy: 201,
+        memories: formatUserMemories([]),
       })
     )
 
@@ -96,6 +99,6 @@ export async function execute(
       flags: MessageFlags.Ephemeral,
     })
   } else {
-    await interaction.reply({ content: result.right })
+    await replyToInteraction(interaction, result.right)
   }
 }
@@ -33,6 +33,7 @@ export function buildHelpEmbed(commands: CommandInfo[]): EmbedBuilder {
           '**@mention me in any channel!**\n' +
           "• In whitelisted channels: I'll respond immediately\n" +
           '• In new channels: Users with "Manage Channels" permission can @mention me to auto-whitelist the channel\n' +
+          '• In servers that enable it, replying to one of my messages works too\n' +
           '• Example: `@Kasane Teto Hello! How are you today?`',
         inline: false,
       },
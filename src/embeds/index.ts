@@ -1,5 +1,6 @@
 export * from './help'
 export * from './leaderboard'
+export * from './longReply'
 export * from './teto'
 
 export const TETO_COLOR_SV = 0xa53846
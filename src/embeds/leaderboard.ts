@@ -26,7 +26,7 @@ function getDisplayName(userId: string, usersMap: Map<string, User>): string {
  * Build formatted leaderboard embed
  */
 export function buildLeaderboardEmbed(
-  entries: LeaderboardEntry[],
+  entries: readonly LeaderboardEntry[],
   usersMap: Map<string, User>,
   guildName?: string
 ): EmbedBuilder {
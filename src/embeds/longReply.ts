@@ -0,0 +1,21 @@
+import { EmbedBuilder } from 'discord.js'
+import { TETO_COLOR_SV } from '.'
+
+/**
+ * Embed description limit, used to split long replies
+ */
+export const EMBED_DESCRIPTION_LIMIT = 4096
+
+/**
+ * Build one embed per chunk of a long reply
+ */
+export function buildLongReplyEmbeds(chunks: string[]): EmbedBuilder[] {
+  return chunks.map((chunk, index) =>
+    new EmbedBuilder()
+      .setColor(TETO_COLOR_SV)
+      .setDescription(chunk)
+      .setFooter(
+        chunks.length > 1 ? { text: `${index + 1}/${chunks.length}` } : null
+      )
+  )
+}
@@ -9,14 +9,15 @@ import {
 } from './listeners'
 import { guildCreateListener } from './listeners/guildCreate'
 import { guildDeleteListener } from './listeners/guildDelete'
-import { MainLive } from './services'
+import { ChannelService, MainLive } from './services'
 import { ChannelRateLimiter } from './services/channelRateLimiter'
 import { ClientContext } from './services/client'
+import { startConversationPruningTask } from './services/conversationPruning'
 import { startGuildCleanupTask } from './services/guildCleanup'
 
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import { appConfig } from './services/config'
+import { appConfig, formatConfigReport } from './services/config'
 
 const loadCommandFiles = Effect.gen(function* () {
   const client = yield* ClientContext
@@ -74,6 +75,9 @@ const program = Effect.scoped(
 
         const client = yield* ClientContext
         const config = yield* appConfig
+        yield* Effect.logInfo(
+          `Effective configuration:\n${formatConfigReport(config)}`
+        )
         const poster = AutoPoster(config.topggToken, client)
 
         const channelRateLimiter = yield* ChannelRateLimiter
@@ -98,8 +102,13 @@ const program = Effect.scoped(
           ).pipe(Runtime.runSync(runtime))
         })
 
+        // Fill the channel whitelist cache before the first mentions arrive
+        const channelService = yield* ChannelService
+        yield* channelService.warmUp.pipe(Effect.fork)
+
         // Start background cleanup fibers
         yield* startGuildCleanupTask(client).pipe(Effect.fork)
+        yield* startConversationPruningTask(client).pipe(Effect.fork)
         yield* channelRateLimiter.startCleanup().pipe(Effect.fork)
 
         yield* Effect.logInfo('Bot startup completed successfully')
@@ -1,6 +1,7 @@
 import type { Guild } from 'discord.js'
 import { Effect, Runtime } from 'effect'
 import { ApiService, type MainLive } from '../services'
+import { ConversationStore } from '../services/llm'
 
 export const guildDeleteListener =
   (runtime: Runtime.Runtime<never>, live: typeof MainLive) =>
@@ -15,5 +16,17 @@ export const guildDeleteListener =
       )
     ).pipe(Effect.either)
 
-    await Runtime.runPromise(runtime)(program.pipe(Effect.provide(live)))
+    // Conversations are deleted even if the backend still knows the guild
+    const deleteConversations = ConversationStore.pipe(
+      Effect.flatMap((store) => store.deleteGuild(guild.id)),
+      Effect.tap((deleted) =>
+        Effect.logInfo(`Deleted ${deleted} conversations of guild ${guild.id}`)
+      ),
+      Effect.tapError((error) => Effect.logError(error.message)),
+      Effect.either
+    )
+
+    await Runtime.runPromise(runtime)(
+      Effect.zip(program, deleteConversations).pipe(Effect.provide(live))
+    )
   }
@@ -1,24 +1,47 @@
-import { type AIMessageChunk, HumanMessage } from '@langchain/core/messages'
-import type { Attachment, Message } from 'discord.js'
+import type { AIMessageChunk } from '@langchain/core/messages'
+import type { Message } from 'discord.js'
 import { PermissionFlagsBits } from 'discord.js'
-import { Effect, Either, Runtime } from 'effect'
+import { Effect, Either, Option, Runtime, Stream } from 'effect'
+import { v4 as uuidv4 } from 'uuid'
 import {
   ApiService,
   ChannelNotWhitelistedError,
   ChannelService,
+  CircuitBreaker,
   type MainLive,
 } from '../services'
 import type { RecordUserMessageResponse } from '../services/api/client'
 import { ChannelRateLimiter } from '../services/channelRateLimiter'
 import { appConfig, isProduction } from '../services/config'
 import { DiscordService } from '../services/discord'
-import { LLMContext } from '../services/llm'
-import { processImageAttachments } from '../services/llm/attachment'
 import {
+  ConversationStore,
+  LLMContext,
+  captionThreadImages,
+  createSpeakerMessage,
+  discardMessagesAfter,
+  formatSpeakerPrefix,
+  loadUserMemories,
+  streamResponseText,
+} from '../services/llm'
+import {
+  formatSkippedAttachmentsNotice,
+  getMessageImageSources,
+  processImages,
+  processTextAttachments,
+} from '../services/llm/attachment'
+import {
+  buildModerationRefusalMessage,
   buildPromptInjectionFallbackMessage,
   buildPromptInjectionMessage,
+  buildReplyChainContext,
 } from '../services/llm/prompt'
-import { MessagesService } from '../services/messages'
+import {
+  MessagesService,
+  OutputBlockedError,
+  OutputModeration,
+  resolveMentions,
+} from '../services/messages'
 import { containsInjection } from '../services/messages/filter'
 import {
   canBotSendMessages,
@@ -29,55 +52,157 @@ const buildSetupMessage = () =>
   "This channel isn't set up for Teto yet! 🎵\n\n" +
   'To start using Teto here, someone with **Manage Channels** permission needs to mention me first.'
 
-const createLLMResponse = (
+const buildBackendDownMessage = () =>
+  "I can't reach my memory right now, so I'm taking a short break! 💤 Try again in a little while."
+
+// Backend circuits a mention depends on
+const BACKEND_CIRCUITS = ['channels', 'discord']
+
+// Outage (circuit open time) each channel was told about,
+// cleared once no circuit is open so it only holds the current outage
+const outageNotices = new Map<string, number>()
+
+const getDisplayName = (message: Message) =>
+  message.member?.displayName ?? message.author.displayName
+
+/**
+ * Render one message of a reply chain the way the model sees human turns
+ */
+const formatReplyChainLine = (message: Message) => {
+  const text =
+    resolveMentions(message.content, message) ||
+    (message.attachments.size > 0 ? '(attachment)' : '(empty message)')
+
+  if (message.author.id === message.client.user.id) {
+    return `[You]: ${text}`
+  }
+
+  return `${formatSpeakerPrefix({
+    id: message.author.id,
+    displayName: getDisplayName(message),
+  })}${text}`
+}
+
+/**
+ * What the user typed, after the reply chain it answers
+ */
+const formatTypedText = (content: string, replyChain: readonly Message[]) =>
+  [
+    replyChain.length > 0
+      ? buildReplyChainContext(replyChain.map(formatReplyChainLine))
+      : '',
+    content,
+  ]
+    .filter((part) => part.length > 0)
+    .join('\n\n')
+
+/**
+ * Build the graph input and run config for a message
+ */
+const prepareLLMInput = (
   message: Message,
   content: string,
-  intimacy: number
+  intimacy: number,
+  replyChain: readonly Message[] = [],
+  withAttachments = true
 ) =>
   Effect.gen(function* () {
-    const llm = yield* LLMContext
-
-    // Process any image attachments - filter for images here
-    const attachments = Array.from(message.attachments.values())
-    const imageAttachments = attachments.filter((att) =>
-      att.contentType?.startsWith('image/')
+    // The directly quoted message is the last one of the chain
+    const quotedMessage = replyChain.at(-1)
+
+    // Images of the message (attachments, embeds and stickers)
+    // The user's own images come first, then the quoted ones
+    const { images, skipped } = yield* processImages(
+      withAttachments
+        ? [
+            ...getMessageImageSources(message),
+            ...(quotedMessage ? getMessageImageSources(quotedMessage) : []),
+          ]
+        : []
     )
-    const imageContent =
-      imageAttachments.length > 0
-        ? yield* processImageAttachments(imageAttachments)
+    const hasImages = images.length > 0
+
+    // Text and code files are inlined after the message
+    const { files, skipped: skippedFiles } = yield* processTextAttachments(
+      withAttachments
+        ? [
+            ...message.attachments.values(),
+            ...(quotedMessage?.attachments.values() ?? []),
+          ]
         : []
-    const hasImages = imageContent.length > 0
+    )
+
+    const text = [formatTypedText(content, replyChain), ...files]
+      .filter((part) => part.length > 0)
+      .join('\n\n')
 
     // Create message content - either just text or multimodal
     const messageContent = hasImages
       ? [
           {
             type: 'text' as const,
-            text: content || '',
+            text: text || '',
           },
-          imageContent[0],
+          ...images,
         ]
-      : content
+      : text
 
-    // Create simplified user context with just username and intimacy level
+    // Create simplified user context with username, intimacy level and memories
     const userContext = {
       username: message.author.username,
       intimacy: intimacy,
+      // biome-ignore lint/style/noNonNullAssertion: can't be null
+      memories: yield* loadUserMemories(message.author.id, message.guildId!),
     }
 
     // One thread per channel basically
-    const config = { configurable: { thread_id: message.channelId } }
-
-    const result = yield* Effect.promise(() =>
-      llm.invoke(
-        {
-          messages: [new HumanMessage({ content: messageContent })],
-          hasImages,
-          userContext,
-        },
-        config
-      )
-    )
+    // user and guild ids are needed by tools acting on the current user,
+    // the guild in the run's metadata is kept with the checkpoints
+    const config = {
+      configurable: {
+        thread_id: message.channelId,
+        user_id: message.author.id,
+        guild_id: message.guildId,
+      },
+      metadata: { guild_id: message.guildId },
+    }
+
+    return {
+      input: {
+        messages: [
+          // A stable id keeps a retried input from being stored twice
+          createSpeakerMessage(
+            messageContent,
+            {
+              id: message.author.id,
+              displayName: getDisplayName(message),
+            },
+            uuidv4()
+          ),
+        ],
+        hasImages,
+        userContext,
+      },
+      config,
+      // Appended to the reply when some attachments couldn't be looked at
+      notice: formatSkippedAttachmentsNotice(skipped, skippedFiles),
+      // Inlined text of the attached files
+      files,
+    }
+  })
+
+type LLMInput = Effect.Effect.Success<ReturnType<typeof prepareLLMInput>>
+
+const invokeLLM = ({ input, config }: LLMInput) =>
+  Effect.gen(function* () {
+    const llm = yield* LLMContext
+
+    // A failed call is an error, not a defect, so the user gets an apology
+    const result = yield* Effect.tryPromise({
+      try: () => llm.invoke(input, config),
+      catch: (error) =>
+        error instanceof Error ? error : new Error(String(error)),
+    })
 
     const lastMessage = result.messages[
       result.messages.length - 1
@@ -88,7 +213,115 @@ const createLLMResponse = (
   }).pipe(Effect.tapError((error) => Effect.logError(error)))
 
 /**
- * Handle messages - only respond to @mentions in guild channels
+ * Drop whatever the graph stored after the input, e.g. a blocked answer
+ * or the turns of a run that failed half way
+ */
+const discardResponse = ({ input, config }: LLMInput) =>
+  Effect.gen(function* () {
+    const llm = yield* LLMContext
+    const inputId = input.messages[0]?.id
+    if (inputId) yield* discardMessagesAfter(llm, config, inputId)
+  })
+
+/**
+ * Log a blocked response and drop it from the thread,
+ * so the model isn't primed by it on the next turn
+ */
+const handleBlockedOutput = (
+  message: Message,
+  llmInput: LLMInput,
+  error: OutputBlockedError
+) =>
+  Effect.gen(function* () {
+    yield* Effect.logWarning(
+      `Blocked LLM output by ${error.moderator} (${error.reason}) in guild ${message.guildId} channel ${message.channelId}`
+    )
+    yield* discardResponse(llmInput)
+  })
+
+/**
+ * Invoke the LLM and moderate the response.
+ * Every attempt starts from the input, so an earlier partial answer
+ * isn't shown to the model or kept in the thread twice.
+ * A blocked response is regenerated while attempts remain,
+ * then replaced with the fallback.
+ */
+const createLLMResponse = (
+  message: Message,
+  llmInput: LLMInput,
+  { attempts, fallback }: { attempts: number; fallback: string }
+) =>
+  Effect.gen(function* () {
+    const moderation = yield* OutputModeration
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      yield* discardResponse(llmInput)
+      const response = String((yield* invokeLLM(llmInput)).content)
+      const blocked = yield* moderation
+        .moderate(response)
+        .pipe(Effect.flip, Effect.option)
+      if (Option.isNone(blocked)) return response
+
+      yield* handleBlockedOutput(message, llmInput, blocked.value)
+    }
+
+    return fallback
+  })
+
+/**
+ * Stream the LLM response into a reply, falls back to a plain invoke
+ * followed by a regular reply when streaming fails.
+ * Each rendered text is moderated, a blocked reply is taken down
+ * and regenerated once.
+ */
+const replyWithLLMResponse = (
+  message: Message,
+  llmInput: LLMInput,
+  replyChain: readonly Message[] = []
+) =>
+  Effect.gen(function* () {
+    const llm = yield* LLMContext
+    const discordService = yield* DiscordService
+    const messagesService = yield* MessagesService
+    const moderation = yield* OutputModeration
+    const restoreMentions = (text: string) =>
+      messagesService.restoreMentions(message, text, replyChain)
+    const withNotice = (text: string) =>
+      llmInput.notice ? `${text}\n${llmInput.notice}` : text
+
+    const streamed = yield* discordService
+      .streamReply(
+        message,
+        streamResponseText(llm, llmInput.input, llmInput.config).pipe(
+          Stream.mapEffect(restoreMentions),
+          Stream.map(withNotice)
+        ),
+        { check: moderation.moderate }
+      )
+      .pipe(Effect.either)
+    if (Either.isRight(streamed)) return
+
+    const wasBlocked = streamed.left instanceof OutputBlockedError
+    if (streamed.left instanceof OutputBlockedError) {
+      yield* handleBlockedOutput(message, llmInput, streamed.left)
+    } else {
+      yield* Effect.logWarning(
+        `Streaming failed in channel ${message.channelId}, falling back to a full response: ${streamed.left.message}`
+      )
+    }
+
+    const response = yield* createLLMResponse(message, llmInput, {
+      attempts: wasBlocked ? 1 : 2,
+      fallback: buildModerationRefusalMessage(),
+    })
+    yield* discordService.reply(
+      message,
+      withNotice(yield* restoreMentions(response))
+    )
+  })
+
+/**
+ * Handle messages - only respond to @mentions (or replies, where enabled) in guild channels
  */
 export const messageCreateListener =
   (runtime: Runtime.Runtime<never>, live: typeof MainLive) =>
@@ -100,13 +333,46 @@ export const messageCreateListener =
 
     const removeBotMentionEffect = Effect.gen(function* () {
       const messagesService = yield* MessagesService
-      const content = yield* messagesService.removeBotMention(message)
+      const content = yield* messagesService
+        .removeBotMention(message)
+        .pipe(
+          Effect.flatMap((text) =>
+            messagesService.resolveMentions(message, text)
+          )
+        )
       yield* Effect.logInfo(
-        `User: ${username}(${userId}) interacted with Teto via @mention in guild ${guildId}`
+        `User: ${username}(${userId}) interacted with Teto via ${
+          message.mentions.has(message.client.user) ? '@mention' : 'reply'
+        } in guild ${guildId}`
       )
       return content
     })
 
+    // Fail fast while the backend is down, telling each channel once per outage
+    const checkBackendEffect = Effect.gen(function* () {
+      const circuitBreaker = yield* CircuitBreaker
+      const statuses = yield* Effect.forEach(
+        BACKEND_CIRCUITS,
+        circuitBreaker.getStatus
+      )
+      const outage = statuses.find(({ state }) => state === 'open')
+      if (!outage?.openedAt) {
+        outageNotices.clear()
+        return true
+      }
+
+      if (outageNotices.get(channelId) !== outage.openedAt) {
+        outageNotices.set(channelId, outage.openedAt)
+        const discordService = yield* DiscordService
+        yield* discordService.reply(message, buildBackendDownMessage())
+      }
+
+      yield* Effect.logWarning(
+        `Backend unavailable, skipping message in channel ${channelId}`
+      )
+      return false // Backend is down, should stop processing
+    })
+
     const checkChannelWhitelistEffect = Effect.gen(function* () {
       const channelService = yield* ChannelService
       const isChannelWhitelisted =
@@ -154,10 +420,14 @@ export const messageCreateListener =
           `Recording message - User: ${username}(${userId}) from Guild: ${guildId}`
         )
       ),
-      Effect.mapError((error) => {
-        if (error.statusCode === 402) return 'not enough credit' as const
-        return 'fail to record user message' as const
-      }),
+      Effect.catchTag('InsufficientCredits', () =>
+        Effect.fail('not enough credit' as const)
+      ),
+      Effect.mapError((error) =>
+        typeof error === 'string'
+          ? error
+          : ('fail to record user message' as const)
+      ),
       Effect.either
     )
 
@@ -184,34 +454,45 @@ export const messageCreateListener =
         return false
       })
 
-    const handlePromptInjectionEffect = (content: string) =>
+    // Checked on the assembled input, so quoted messages and files count too
+    // Runs on the channel's thread wait for each other, so a run and the
+    // captioning after it never interleave with another message's run
+    const withThreadLock = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+      Effect.flatMap(ConversationStore, (conversationStore) =>
+        conversationStore.withThreadLock(channelId, effect)
+      )
+
+    const handlePromptInjectionEffect = (text: string) =>
       Effect.gen(function* () {
-        if (containsInjection(content)) {
+        if (containsInjection(text)) {
           yield* Effect.logWarning(
-            `Prompt injection detected from user ${username}(${userId}) in guild ${guildId}: "${content}"`
+            `Prompt injection detected from user ${username}(${userId}) in guild ${guildId}: "${text}"`
           )
 
-          const teasingResponse = yield* createLLMResponse(
+          const fallback = buildPromptInjectionFallbackMessage()
+          const teasingResponse = yield* prepareLLMInput(
             message,
             buildPromptInjectionMessage(),
-            0 // Use intimacy level 0 for injection attempts
+            0, // Use intimacy level 0 for injection attempts
+            [],
+            false // The attachments may hold the injection
           ).pipe(
-            Effect.catchAll(() =>
-              Effect.succeed({
-                content: buildPromptInjectionFallbackMessage(),
-              })
-            )
+            Effect.flatMap((llmInput) =>
+              withThreadLock(
+                createLLMResponse(message, llmInput, { attempts: 1, fallback })
+              )
+            ),
+            Effect.catchAll(() => Effect.succeed(fallback))
           )
 
           const discordService = yield* DiscordService
-          yield* discordService.reply(message, String(teasingResponse.content))
+          yield* discordService.reply(message, teasingResponse)
           return true // Indicate we should return early
         }
         return false
       })
 
-    const handleNormalResponseEffect = (
-      content: string,
+    const prepareContextEffect = (
       userMsgRecordRes: Either.Either<
         RecordUserMessageResponse,
         'not enough credit' | 'fail to record user message'
@@ -224,11 +505,15 @@ export const messageCreateListener =
             ? userMsgRecordRes.right.data?.userGuild?.intimacy || 0
             : 0
 
-        // Generate LLM response
-        const response = yield* createLLMResponse(message, content, intimacy)
+        // Give the model the quoted message and the chain above it
+        const config = yield* appConfig
+        const messagesService = yield* MessagesService
+        const replyChain = yield* messagesService.getReplyChain(
+          message,
+          config.replyChainDepth
+        )
 
-        const discordService = yield* DiscordService
-        yield* discordService.reply(message, String(response.content))
+        return { intimacy, replyChain }
       })
 
     // Entry
@@ -236,6 +521,9 @@ export const messageCreateListener =
       const content = yield* removeBotMentionEffect
       const channelService = yield* ChannelService
 
+      const isBackendUp = yield* checkBackendEffect
+      if (!isBackendUp) return
+
       const isWhitelisted = yield* checkChannelWhitelistEffect
 
       /**
@@ -264,10 +552,40 @@ export const messageCreateListener =
         yield* handleNotEnoughCreditEffect(userMsgRecordRes)
       if (notEnoughCredit) return
 
-      const hasInjection = yield* handlePromptInjectionEffect(content)
-      if (hasInjection) return
+      const { intimacy, replyChain } =
+        yield* prepareContextEffect(userMsgRecordRes)
+
+      // The typed text is checked before any attachment is downloaded,
+      // the files once they have been read
+      const typedInjection = yield* handlePromptInjectionEffect(
+        formatTypedText(content, replyChain)
+      )
+      if (typedInjection) return
 
-      yield* handleNormalResponseEffect(content, userMsgRecordRes)
+      const llmInput = yield* prepareLLMInput(
+        message,
+        content,
+        intimacy,
+        replyChain
+      )
+      const fileInjection = yield* handlePromptInjectionEffect(
+        llmInput.files.join('\n\n')
+      )
+      if (fileInjection) return
+
+      // Generate and stream the LLM response, its images are captioned
+      // once the reply is out so the vision call doesn't delay it
+      const llm = yield* LLMContext
+      const inputId = llmInput.input.messages[0]?.id
+      yield* withThreadLock(
+        replyWithLLMResponse(message, llmInput, replyChain).pipe(
+          Effect.ensuring(
+            llmInput.input.hasImages && inputId
+              ? captionThreadImages(llm, llmInput.config, inputId)
+              : Effect.void
+          )
+        )
+      )
     }).pipe(
       Effect.catchAll((error) =>
         Effect.gen(function* () {
@@ -0,0 +1,242 @@
+import {
+  Cause,
+  Clock,
+  Context,
+  Data,
+  Effect,
+  Exit,
+  Layer,
+  Option,
+  Ref,
+} from 'effect'
+import { appConfig } from '../config'
+
+/**
+ * Circuit breaker for backend calls, one circuit per endpoint group
+ *
+ * closed: calls go through, failures within the window are counted
+ * open: calls fail fast until the reset timeout has passed
+ * half-open: one trial call decides whether to close or open again
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitStatus {
+  state: CircuitState
+  // Failures counted in the current window while closed
+  failures: number
+  // When the circuit last opened, identifies an outage
+  openedAt: number | null
+}
+
+export class CircuitOpenError extends Data.TaggedError('CircuitOpenError')<{
+  group: string
+  retryAfterMs: number
+}> {}
+
+interface Circuit {
+  state: CircuitState
+  failureTimestamps: number[]
+  openedAt: number | null
+  trialInFlight: boolean
+}
+
+type Permit =
+  | { allowed: true; trial: boolean }
+  | { allowed: false; retryAfterMs: number }
+
+const closedCircuit = (): Circuit => ({
+  state: 'closed',
+  failureTimestamps: [],
+  openedAt: null,
+  trialInFlight: false,
+})
+
+export class CircuitBreaker extends Context.Tag('CircuitBreaker')<
+  CircuitBreaker,
+  {
+    /**
+     * Run an effect through the circuit of a group
+     * Only errors matching `isFailure` count towards opening the circuit
+     */
+    protect: <A, E, R>(
+      group: string,
+      effect: Effect.Effect<A, E, R>,
+      isFailure?: (error: E) => boolean
+    ) => Effect.Effect<A, E | CircuitOpenError, R>
+    /**
+     * Current status of a group, for monitoring and fail fast checks
+     */
+    getStatus: (group: string) => Effect.Effect<CircuitStatus>
+    /**
+     * Status of every group that has been used
+     */
+    getAllStatuses: Effect.Effect<Record<string, CircuitStatus>>
+  }
+>() {}
+
+const make = Effect.gen(function* () {
+  const config = yield* appConfig
+  const circuits = yield* Ref.make(new Map<string, Circuit>())
+
+  const updateCircuit = <A>(
+    group: string,
+    f: (circuit: Circuit, now: number) => [A, Circuit]
+  ) =>
+    Effect.gen(function* () {
+      const now = yield* Clock.currentTimeMillis
+      return yield* Ref.modify(circuits, (map) => {
+        const [result, circuit] = f(map.get(group) ?? closedCircuit(), now)
+        return [result, new Map(map).set(group, circuit)] as const
+      })
+    })
+
+  const toStatus = (circuit: Circuit, now: number): CircuitStatus => ({
+    // An open circuit past its reset timeout lets the next call through
+    state:
+      circuit.state === 'open' &&
+      circuit.openedAt !== null &&
+      now - circuit.openedAt >= config.circuitBreakerResetMs
+        ? 'half-open'
+        : circuit.state,
+    failures: circuit.failureTimestamps.filter(
+      (timestamp) => now - timestamp < config.circuitBreakerWindowMs
+    ).length,
+    openedAt: circuit.openedAt,
+  })
+
+  /**
+   * Decide whether a call may go through, and whether it is the trial call
+   */
+  const acquire = (group: string) =>
+    updateCircuit<Permit>(group, (circuit, now) => {
+      if (circuit.state === 'closed') {
+        return [{ allowed: true, trial: false }, circuit]
+      }
+
+      const elapsed = now - (circuit.openedAt ?? now)
+      if (circuit.trialInFlight || elapsed < config.circuitBreakerResetMs) {
+        const retryAfterMs = Math.max(0, config.circuitBreakerResetMs - elapsed)
+        return [{ allowed: false, retryAfterMs }, circuit]
+      }
+
+      return [
+        { allowed: true, trial: true },
+        { ...circuit, state: 'half-open', trialInFlight: true },
+      ]
+    })
+
+  const onSuccess = (group: string) =>
+    updateCircuit(group, (circuit) => [
+      circuit.state !== 'closed',
+      closedCircuit(),
+    ]).pipe(
+      Effect.tap((recovered) =>
+        recovered
+          ? Effect.logInfo(`Circuit breaker [${group}] closed`)
+          : Effect.void
+      )
+    )
+
+  const onFailure = (group: string) =>
+    updateCircuit(group, (circuit, now) => {
+      // A failed trial opens the circuit again right away
+      if (circuit.state !== 'closed') {
+        return [
+          true,
+          { ...circuit, state: 'open', openedAt: now, trialInFlight: false },
+        ]
+      }
+
+      const failureTimestamps = [
+        ...circuit.failureTimestamps.filter(
+          (timestamp) => now - timestamp < config.circuitBreakerWindowMs
+        ),
+        now,
+      ]
+      if (failureTimestamps.length >= config.circuitBreakerFailureThreshold) {
+        return [
+          true,
+          {
+            state: 'open',
+            failureTimestamps: [],
+            openedAt: now,
+            trialInFlight: false,
+          },
+        ]
+      }
+
+      return [false, { ...circuit, failureTimestamps }]
+    }).pipe(
+      Effect.tap((opened) =>
+        opened
+          ? Effect.logWarning(
+              `Circuit breaker [${group}] opened, failing fast for ${config.circuitBreakerResetMs}ms`
+            )
+          : Effect.void
+      )
+    )
+
+  // An interrupted trial neither closes nor opens the circuit, it frees the slot
+  const releaseTrial = (group: string) =>
+    updateCircuit(group, (circuit) => [
+      undefined,
+      { ...circuit, trialInFlight: false },
+    ])
+
+  const protect = <A, E, R>(
+    group: string,
+    effect: Effect.Effect<A, E, R>,
+    isFailure: (error: E) => boolean = () => true
+  ): Effect.Effect<A, E | CircuitOpenError, R> =>
+    Effect.gen(function* () {
+      const permit = yield* acquire(group)
+      if (!permit.allowed) {
+        return yield* Effect.fail(
+          new CircuitOpenError({ group, retryAfterMs: permit.retryAfterMs })
+        )
+      }
+
+      return yield* effect.pipe(
+        Effect.onExit((exit) => {
+          if (Exit.isSuccess(exit)) return onSuccess(group)
+          if (Cause.isInterruptedOnly(exit.cause)) {
+            return permit.trial ? releaseTrial(group) : Effect.void
+          }
+
+          // Errors that aren't failures (e.g. 404) still prove it's up,
+          // a defect counts as a failure
+          return Option.match(Cause.failureOption(exit.cause), {
+            onNone: () => onFailure(group),
+            onSome: (error) =>
+              isFailure(error) ? onFailure(group) : onSuccess(group),
+          })
+        })
+      )
+    })
+
+  const getStatus = (group: string) =>
+    Effect.gen(function* () {
+      const now = yield* Clock.currentTimeMillis
+      const circuit = (yield* Ref.get(circuits)).get(group) ?? closedCircuit()
+      return toStatus(circuit, now)
+    })
+
+  const getAllStatuses = Effect.gen(function* () {
+    const now = yield* Clock.currentTimeMillis
+    const map = yield* Ref.get(circuits)
+    return Object.fromEntries(
+      [...map.entries()].map(([group, circuit]) => [
+        group,
+        toStatus(circuit, now),
+      ])
+    )
+  })
+
+  return CircuitBreaker.of({ protect, getStatus, getAllStatuses })
+})
+
+/**
+ * Circuit Breaker Implementation, shared by the whole process
+ */
+export const CircuitBreakerLive = Layer.effect(CircuitBreaker, make)
@@ -1,7 +1,9 @@
-import { Data, Effect, Runtime } from 'effect'
+import { Data, Effect, Either, ParseResult, Runtime, Schema } from 'effect'
 import { Duration, Schedule } from 'effect'
 import { FetchError, type FetchOptions, ofetch } from 'ofetch'
 import { appConfig, isDevelopment } from '../config'
+import { CircuitBreaker } from './circuitBreaker'
+import * as schema from './schema'
 
 const config = Effect.runSync(appConfig)
 
@@ -26,19 +28,28 @@ export const api = ofetch.create({
   },
 })
 
+/**
+ * Request an endpoint and decode its response
+ * @throws {FetchError} When the API request fails
+ * @throws {ApiDecodeError} When the response doesn't match its schema
+ */
+const fetchDecoded = async <A, I>(
+  responseSchema: Schema.Schema<A, I>,
+  endpoint: string,
+  url: string,
+  options?: FetchOptions<'json'>
+): Promise<A> =>
+  decodeResponse(responseSchema, endpoint, await api(url, options))
+
 // =====================
 // TYPE DEFINITIONS
 // =====================
+// Response types come from the schemas they are decoded with
+
+export type MessageResponse = typeof schema.MessageResponse.Type
 
 // User Types
-export interface User {
-  userId: string
-  insertedAt: string
-  updatedAt: string
-  role?: 'user' | 'admin'
-  lastVotedAt?: string
-  messageCredits: string
-}
+export type User = typeof schema.User.Type
 
 export interface CreateUserRequest {
   userId: string
@@ -52,79 +63,35 @@ export interface UpdateUserRequest {
   lastVotedAt?: string
 }
 
-export interface UserResponse {
-  data: {
-    user: User
-  }
-}
+export type UserResponse = typeof schema.UserResponse.Type
 
-export interface UsersResponse {
-  data: {
-    users: User[]
-  }
-}
+export type UsersResponse = typeof schema.UsersResponse.Type
 
 // Guild Types
-export interface Guild {
-  id: string
-  guildId: string
-  insertedAt: string
-  updatedAt: string
-}
+export type Guild = typeof schema.Guild.Type
 
 export interface CreateGuildRequest {
   guildId: string
 }
 
-export interface GuildResponse {
-  data: {
-    guild: Guild
-  }
-}
+export type GuildResponse = typeof schema.GuildResponse.Type
 
-export interface GuildsResponse {
-  data: {
-    guilds: Guild[]
-  }
-}
+export type GuildsResponse = typeof schema.GuildsResponse.Type
 
 // Channel Types
-export interface Channel {
-  id: string
-  channelId: string
-  guildId: string
-  insertedAt: string
-  updatedAt: string
-}
+export type Channel = typeof schema.Channel.Type
 
 export interface CreateChannelRequest {
   channelId: string
   guildId: string
 }
 
-export interface ChannelResponse {
-  data: {
-    channel: Channel
-  }
-}
+export type ChannelResponse = typeof schema.ChannelResponse.Type
 
-export interface ChannelsResponse {
-  data: {
-    channels: Channel[]
-  }
-}
+export type ChannelsResponse = typeof schema.ChannelsResponse.Type
 
 // UserGuild Types
-export interface UserGuild {
-  userId: string
-  guildId: string
-  insertedAt: string
-  updatedAt: string
-  intimacy: number
-  lastMessageAt?: string
-  lastFeed?: string
-  dailyMessageCount: string
-}
+export type UserGuild = typeof schema.UserGuild.Type
 
 export interface CreateUserGuildRequest {
   userId: string
@@ -142,28 +109,14 @@ export interface UpdateUserGuildRequest {
   dailyMessageCount?: string
 }
 
-export interface UserGuildResponse {
-  data: {
-    userGuild: UserGuild
-  }
-}
+export type UserGuildResponse = typeof schema.UserGuildResponse.Type
 
-export interface UserGuildsResponse {
-  data: {
-    userGuilds: UserGuild[]
-  }
-}
+export type UserGuildsResponse = typeof schema.UserGuildsResponse.Type
 
 // Leaderboard Types
-export interface LeaderboardEntry extends UserGuild {}
+export type LeaderboardEntry = UserGuild
 
-export interface LeaderboardResponse {
-  data: {
-    leaderboard: LeaderboardEntry[]
-    guildId: string
-    limit: number
-  }
-}
+export type LeaderboardResponse = typeof schema.LeaderboardResponse.Type
 
 export interface LeaderboardRequest {
   guildId: string
@@ -175,33 +128,19 @@ export interface TokenRequest {
   text: string
 }
 
-export interface TokenResponse {
-  token_count: number
-  text_length: number
-}
+export type TokenResponse = typeof schema.TokenResponse.Type
 
 // System Prompt Types
 export interface SetSystemPromptRequest {
   prompt: string
 }
 
-export interface SystemPromptResponse {
-  prompt: string | null
-}
+export type SystemPromptResponse = typeof schema.SystemPromptResponse.Type
 
-export interface SetSystemPromptResponse {
-  success: boolean
-  message: string
-}
+export type SetSystemPromptResponse = typeof schema.SetSystemPromptResponse.Type
 
 // Lyrics Types
-export interface Lyrics {
-  artist: string
-  title: string
-  lyrics: string
-  createdAt: string
-  updatedAt: string
-}
+export type Lyrics = typeof schema.Lyrics.Type
 
 export interface CreateLyricsRequest {
   artist: string
@@ -213,54 +152,40 @@ export interface UpdateLyricsRequest {
   lyrics: string
 }
 
-export interface LyricsResponse {
-  data: {
-    lyrics: Lyrics
-  }
-}
+export type LyricsResponse = typeof schema.LyricsResponse.Type
 
-export interface LyricsListResponse {
-  data: {
-    lyrics: Lyrics[]
-  }
-}
+export type LyricsListResponse = typeof schema.LyricsListResponse.Type
 
-export interface DeleteLyricsResponse {
-  data: {
-    message: string
-  }
-}
+export type DeleteLyricsResponse = typeof schema.MessageResponse.Type
 
-export interface WordOfTheDayResponse {
-  data: {
-    word: string
-    date: string
-  }
-}
+export type WordOfTheDayResponse = typeof schema.WordOfTheDayResponse.Type
 
-export interface WordResponse {
-  response: string
-  updatedAt: string
-}
+export type WordResponse = typeof schema.WordResponse.Type
 
 export interface UpdateWordResponseRequest {
   response: string
 }
 
-export interface WordResponseResponse {
-  data: WordResponse
-}
+export type WordResponseResponse = typeof schema.WordResponseResponse.Type
 
-export interface UpdateWordResponseResponse {
-  data: WordResponse
-}
+export type UpdateWordResponseResponse = typeof schema.WordResponseResponse.Type
 
-export interface DeleteWordResponseResponse {
-  data: {
-    message: string
-  }
+export type DeleteWordResponseResponse = typeof schema.MessageResponse.Type
+
+// User Memory Types
+export type UserMemory = typeof schema.UserMemory.Type
+
+export interface UpsertUserMemoryRequest {
+  userId: string
+  guildId: string
+  key: string
+  value: string
 }
 
+export type UserMemoryResponse = typeof schema.UserMemoryResponse.Type
+
+export type UserMemoriesResponse = typeof schema.UserMemoriesResponse.Type
+
 // =====================
 // API SERVICE - PHASE 2 COMPLETE
 // =====================
@@ -271,7 +196,7 @@ export interface DeleteWordResponseResponse {
 //    - promiseApi.* / discordBotApi.*
 //    - Use for existing code during migration
 //
-// 2. Modern Effect-based APIs (return Effect<T, ApiError>):
+// 2. Modern Effect-based APIs (return Effect<T, ApiError | ApiDecodeError>):
 //    - effectApi.*
 //    - Use for new code - provides proper error handling and Effect integration
 //
@@ -282,6 +207,9 @@ export interface DeleteWordResponseResponse {
 // ✅ Type-safe error recovery patterns
 // ✅ Composable error handling with retry, fallback, etc.
 //
+// Both decode responses with the schemas in ./schema, numeric strings
+// become numbers and unexpected responses fail with ApiDecodeError
+//
 // Note: Legacy Promise-based functions throw FetchError on HTTP errors
 
 // =====================
@@ -295,7 +223,7 @@ export const userApi = {
    * @throws {FetchError} When the API request fails
    */
   async getUsers(): Promise<UsersResponse> {
-    return api<UsersResponse>('/users')
+    return fetchDecoded(schema.UsersResponse, 'users.getUsers', '/users')
   },
 
   /**
@@ -303,7 +231,11 @@ export const userApi = {
    * @throws {FetchError} When the API request fails
    */
   async getUser(userId: string): Promise<UserResponse> {
-    return api<UserResponse>(`/users/${userId}`)
+    return fetchDecoded(
+      schema.UserResponse,
+      'users.getUser',
+      `/users/${userId}`
+    )
   },
 
   /**
@@ -311,7 +243,7 @@ export const userApi = {
    * @throws {FetchError} When the API request fails
    */
   async createUser(userData: CreateUserRequest): Promise<UserResponse> {
-    return api<UserResponse>('/users', {
+    return fetchDecoded(schema.UserResponse, 'users.createUser', '/users', {
       method: 'POST',
       body: userData,
     })
@@ -325,20 +257,30 @@ export const userApi = {
     userId: string,
     updateData: Omit<UpdateUserRequest, 'userId'>
   ): Promise<UserResponse> {
-    return api<UserResponse>(`/users/${userId}`, {
-      method: 'PUT',
-      body: updateData,
-    })
+    return fetchDecoded(
+      schema.UserResponse,
+      'users.updateUser',
+      `/users/${userId}`,
+      {
+        method: 'PUT',
+        body: updateData,
+      }
+    )
   },
 
   /**
    * Delete a user
    * @throws {FetchError} When the API request fails
    */
-  async deleteUser(userId: string): Promise<{ data: { message: string } }> {
-    return api<{ data: { message: string } }>(`/users/${userId}`, {
-      method: 'DELETE',
-    })
+  async deleteUser(userId: string): Promise<MessageResponse> {
+    return fetchDecoded(
+      schema.MessageResponse,
+      'users.deleteUser',
+      `/users/${userId}`,
+      {
+        method: 'DELETE',
+      }
+    )
   },
 }
 
@@ -349,7 +291,7 @@ export const guildApi = {
    * @throws {FetchError} When the API request fails
    */
   async getGuilds(): Promise<GuildsResponse> {
-    return api<GuildsResponse>('/guilds')
+    return fetchDecoded(schema.GuildsResponse, 'guilds.getGuilds', '/guilds')
   },
 
   /**
@@ -357,7 +299,11 @@ export const guildApi = {
    * @throws {FetchError} When the API request fails
    */
   async getGuild(guildId: string): Promise<GuildResponse> {
-    return api<GuildResponse>(`/guilds/${guildId}`)
+    return fetchDecoded(
+      schema.GuildResponse,
+      'guilds.getGuild',
+      `/guilds/${guildId}`
+    )
   },
 
   /**
@@ -365,7 +311,7 @@ export const guildApi = {
    * @throws {FetchError} When the API request fails
    */
   async createGuild(guildData: CreateGuildRequest): Promise<GuildResponse> {
-    return api<GuildResponse>('/guilds', {
+    return fetchDecoded(schema.GuildResponse, 'guilds.createGuild', '/guilds', {
       method: 'POST',
       body: guildData,
     })
@@ -377,10 +323,15 @@ export const guildApi = {
    * Delete a guild
    * @throws {FetchError} When the API request fails
    */
-  deleteGuild(guildId: string): Promise<{ data: { message: string } }> {
-    return api<{ data: { message: string } }>(`/guilds/${guildId}`, {
-      method: 'DELETE',
-    })
+  deleteGuild(guildId: string): Promise<MessageResponse> {
+    return fetchDecoded(
+      schema.MessageResponse,
+      'guilds.deleteGuild',
+      `/guilds/${guildId}`,
+      {
+        method: 'DELETE',
+      }
+    )
   },
 
   deleteGuildEffect: (guildId: string) =>
@@ -397,7 +348,11 @@ export const channelApi = {
    * @throws {FetchError} When the API request fails
    */
   async getChannels(): Promise<ChannelsResponse> {
-    return api<ChannelsResponse>('/channels')
+    return fetchDecoded(
+      schema.ChannelsResponse,
+      'channels.getChannels',
+      '/channels'
+    )
   },
 
   /**
@@ -405,7 +360,11 @@ export const channelApi = {
    * @throws {FetchError} When the API request fails
    */
   async getChannel(channelId: string): Promise<ChannelResponse> {
-    return api<ChannelResponse>(`/channels/${channelId}`)
+    return fetchDecoded(
+      schema.ChannelResponse,
+      'channels.getChannel',
+      `/channels/${channelId}`
+    )
   },
 
   /**
@@ -415,22 +374,30 @@ export const channelApi = {
   async createChannel(
     channelData: CreateChannelRequest
   ): Promise<ChannelResponse> {
-    return api<ChannelResponse>('/channels', {
-      method: 'POST',
-      body: channelData,
-    })
+    return fetchDecoded(
+      schema.ChannelResponse,
+      'channels.createChannel',
+      '/channels',
+      {
+        method: 'POST',
+        body: channelData,
+      }
+    )
   },
 
   /**
    * Delete a channel (blacklist)
    * @throws {FetchError} When the API request fails
    */
-  async deleteChannel(
-    channelId: string
-  ): Promise<{ data: { message: string } }> {
-    return api<{ data: { message: string } }>(`/channels/${channelId}`, {
-      method: 'DELETE',
-    })
+  async deleteChannel(channelId: string): Promise<MessageResponse> {
+    return fetchDecoded(
+      schema.MessageResponse,
+      'channels.deleteChannel',
+      `/channels/${channelId}`,
+      {
+        method: 'DELETE',
+      }
+    )
   },
 }
 
@@ -441,7 +408,11 @@ export const userGuildApi = {
    * @throws {FetchError} When the API request fails
    */
   async getUserGuilds(): Promise<UserGuildsResponse> {
-    return api<UserGuildsResponse>('/user-guilds')
+    return fetchDecoded(
+      schema.UserGuildsResponse,
+      'userGuilds.getUserGuilds',
+      '/user-guilds'
+    )
   },
 
   /**
@@ -452,9 +423,14 @@ export const userGuildApi = {
     userId: string,
     guildId: string
   ): Promise<UserGuildResponse> {
-    return api<UserGuildResponse>('/user-guilds', {
-      query: { userId, guildId },
-    })
+    return fetchDecoded(
+      schema.UserGuildResponse,
+      'userGuilds.getUserGuild',
+      '/user-guilds',
+      {
+        query: { userId, guildId },
+      }
+    )
   },
 
   /**
@@ -464,10 +440,15 @@ export const userGuildApi = {
   async createUserGuild(
     userGuildData: CreateUserGuildRequest
   ): Promise<UserGuildResponse> {
-    return api<UserGuildResponse>('/user-guilds', {
-      method: 'POST',
-      body: userGuildData,
-    })
+    return fetchDecoded(
+      schema.UserGuildResponse,
+      'userGuilds.createUserGuild',
+      '/user-guilds',
+      {
+        method: 'POST',
+        body: userGuildData,
+      }
+    )
   },
 
   /**
@@ -479,11 +460,16 @@ export const userGuildApi = {
     guildId: string,
     updateData: UpdateUserGuildRequest
   ): Promise<UserGuildResponse> {
-    return api<UserGuildResponse>('/user-guilds', {
-      method: 'PUT',
-      query: { userId, guildId },
-      body: updateData,
-    })
+    return fetchDecoded(
+      schema.UserGuildResponse,
+      'userGuilds.updateUserGuild',
+      '/user-guilds',
+      {
+        method: 'PUT',
+        query: { userId, guildId },
+        body: updateData,
+      }
+    )
   },
 }
 
@@ -496,12 +482,17 @@ export const leaderboardApi = {
   async getIntimacyLeaderboard(
     request: LeaderboardRequest
   ): Promise<LeaderboardResponse> {
-    return api<LeaderboardResponse>('/leaderboard', {
-      query: {
-        guildId: request.guildId,
-        ...(request.limit && { limit: request.limit.toString() }),
-      },
-    })
+    return fetchDecoded(
+      schema.LeaderboardResponse,
+      'leaderboard.getIntimacyLeaderboard',
+      '/leaderboard',
+      {
+        query: {
+          guildId: request.guildId,
+          ...(request.limit && { limit: request.limit.toString() }),
+        },
+      }
+    )
   },
 }
 
@@ -512,10 +503,15 @@ export const tokenApi = {
    * @throws {FetchError} When the API request fails
    */
   async getTokenCount(text: string): Promise<TokenResponse> {
-    return api<TokenResponse>('/tokens', {
-      method: 'POST',
-      body: { text },
-    })
+    return fetchDecoded(
+      schema.TokenResponse,
+      'tokens.getTokenCount',
+      '/tokens',
+      {
+        method: 'POST',
+        body: { text },
+      }
+    )
   },
 }
 
@@ -526,9 +522,14 @@ export const systemPromptApi = {
    * @throws {FetchError} When the API request fails
    */
   async getSystemPrompt(): Promise<SystemPromptResponse> {
-    return api<SystemPromptResponse>('/system-prompt', {
-      method: 'GET',
-    })
+    return fetchDecoded(
+      schema.SystemPromptResponse,
+      'systemPrompt.getSystemPrompt',
+      '/system-prompt',
+      {
+        method: 'GET',
+      }
+    )
   },
 
   /**
@@ -536,10 +537,15 @@ export const systemPromptApi = {
    * @throws {FetchError} When the API request fails
    */
   async setSystemPrompt(prompt: string): Promise<SetSystemPromptResponse> {
-    return api<SetSystemPromptResponse>('/system-prompt', {
-      method: 'POST',
-      body: { prompt },
-    })
+    return fetchDecoded(
+      schema.SetSystemPromptResponse,
+      'systemPrompt.setSystemPrompt',
+      '/system-prompt',
+      {
+        method: 'POST',
+        body: { prompt },
+      }
+    )
   },
 }
 
@@ -550,9 +556,14 @@ export const lyricsApi = {
    * @throws {FetchError} When the API request fails
    */
   async getAllLyrics(): Promise<LyricsListResponse> {
-    return api<LyricsListResponse>('/lyrics', {
-      method: 'GET',
-    })
+    return fetchDecoded(
+      schema.LyricsListResponse,
+      'lyrics.getAllLyrics',
+      '/lyrics',
+      {
+        method: 'GET',
+      }
+    )
   },
 
   /**
@@ -560,19 +571,29 @@ export const lyricsApi = {
    * @throws {FetchError} When the API request fails
    */
   async createLyrics(lyricsData: CreateLyricsRequest): Promise<LyricsResponse> {
-    return api<LyricsResponse>('/lyrics', {
-      method: 'POST',
-      body: lyricsData,
-    })
+    return fetchDecoded(
+      schema.LyricsResponse,
+      'lyrics.createLyrics',
+      '/lyrics',
+      {
+        method: 'POST',
+        body: lyricsData,
+      }
+    )
   },
 
   /**
    * Get lyrics by title
    */
   async getLyricsByTitle(title: string): Promise<LyricsListResponse> {
-    return api<LyricsListResponse>(`/lyrics/${encodeURIComponent(title)}`, {
-      method: 'GET',
-    })
+    return fetchDecoded(
+      schema.LyricsListResponse,
+      'lyrics.getLyricsByTitle',
+      `/lyrics/${encodeURIComponent(title)}`,
+      {
+        method: 'GET',
+      }
+    )
   },
 
   /**
@@ -580,7 +601,9 @@ export const lyricsApi = {
    * @throws {FetchError} When the API request fails
    */
   async getLyrics(artist: string, title: string): Promise<LyricsResponse> {
-    return api<LyricsResponse>(
+    return fetchDecoded(
+      schema.LyricsResponse,
+      'lyrics.getLyrics',
       `/lyrics/${encodeURIComponent(artist)}/${encodeURIComponent(title)}`,
       {
         method: 'GET',
@@ -597,7 +620,9 @@ export const lyricsApi = {
     title: string,
     updates: UpdateLyricsRequest
   ): Promise<LyricsResponse> {
-    return api<LyricsResponse>(
+    return fetchDecoded(
+      schema.LyricsResponse,
+      'lyrics.updateLyrics',
       `/lyrics/${encodeURIComponent(artist)}/${encodeURIComponent(title)}`,
       {
         method: 'PUT',
@@ -620,19 +645,11 @@ export interface RecordUserMessageRequest {
   intimacyIncrement?: number
 }
 
-export interface EnsureUserGuildExistsResponse {
-  data: {
-    user: User
-    userGuild: UserGuild
-  }
-}
+export type EnsureUserGuildExistsResponse =
+  typeof schema.EnsureUserGuildExistsResponse.Type
 
-export interface RecordUserMessageResponse {
-  data: {
-    user: User
-    userGuild?: UserGuild
-  }
-}
+export type RecordUserMessageResponse =
+  typeof schema.RecordUserMessageResponse.Type
 
 // Discord Operations API (optimized for Discord bots)
 export const discordOpsApi = {
@@ -643,10 +660,15 @@ export const discordOpsApi = {
   async ensureUserGuildExists(
     request: EnsureUserGuildExistsRequest
   ): Promise<EnsureUserGuildExistsResponse> {
-    return api<EnsureUserGuildExistsResponse>('/ensure-user-guild-exists', {
-      method: 'POST',
-      body: request,
-    })
+    return fetchDecoded(
+      schema.EnsureUserGuildExistsResponse,
+      'discord.ensureUserGuildExists',
+      '/ensure-user-guild-exists',
+      {
+        method: 'POST',
+        body: request,
+      }
+    )
   },
 
   /**
@@ -656,10 +678,15 @@ export const discordOpsApi = {
   async recordUserMessage(
     request: RecordUserMessageRequest
   ): Promise<RecordUserMessageResponse> {
-    return api<RecordUserMessageResponse>('/record-user-message', {
-      method: 'POST',
-      body: request,
-    })
+    return fetchDecoded(
+      schema.RecordUserMessageResponse,
+      'discord.recordUserMessage',
+      '/record-user-message',
+      {
+        method: 'POST',
+        body: request,
+      }
+    )
   },
   recordUserMessageEffect(request: RecordUserMessageRequest) {
     return makeApiEffect(
@@ -676,7 +703,11 @@ export const wordOfTheDayApi = {
    * @throws {FetchError} When the API request fails
    */
   async getTodaysWord(): Promise<WordOfTheDayResponse> {
-    return api<WordOfTheDayResponse>('/word-of-the-day')
+    return fetchDecoded(
+      schema.WordOfTheDayResponse,
+      'wordOfTheDay.getTodaysWord',
+      '/word-of-the-day'
+    )
   },
 }
 
@@ -686,7 +717,11 @@ export const wordResponseApi = {
    * Get the current LLM word response
    */
   async getWordResponse(): Promise<WordResponseResponse> {
-    return api<WordResponseResponse>('/word-response')
+    return fetchDecoded(
+      schema.WordResponseResponse,
+      'wordResponse.getWordResponse',
+      '/word-response'
+    )
   },
 
   /**
@@ -695,19 +730,88 @@ export const wordResponseApi = {
   async updateWordResponse(
     updateData: UpdateWordResponseRequest
   ): Promise<UpdateWordResponseResponse> {
-    return api<UpdateWordResponseResponse>('/word-response', {
-      method: 'POST',
-      body: updateData,
-    })
+    return fetchDecoded(
+      schema.WordResponseResponse,
+      'wordResponse.updateWordResponse',
+      '/word-response',
+      {
+        method: 'POST',
+        body: updateData,
+      }
+    )
   },
 
   /**
    * Delete the current LLM word response
    */
   async deleteWordResponse(): Promise<DeleteWordResponseResponse> {
-    return api<DeleteWordResponseResponse>('/word-response', {
-      method: 'DELETE',
-    })
+    return fetchDecoded(
+      schema.MessageResponse,
+      'wordResponse.deleteWordResponse',
+      '/word-response',
+      {
+        method: 'DELETE',
+      }
+    )
+  },
+}
+
+// User Memory API
+export const userMemoryApi = {
+  /**
+   * Get all remembered facts about a user in a guild
+   * @throws {FetchError} When the API request fails
+   */
+  async getUserMemories(
+    userId: string,
+    guildId: string
+  ): Promise<UserMemoriesResponse> {
+    return fetchDecoded(
+      schema.UserMemoriesResponse,
+      'userMemories.getUserMemories',
+      '/user-memories',
+      {
+        query: { userId, guildId },
+      }
+    )
+  },
+
+  /**
+   * Create or overwrite a remembered fact (unique per user, guild and key)
+   * @throws {FetchError} When the API request fails
+   */
+  async upsertUserMemory(
+    memoryData: UpsertUserMemoryRequest
+  ): Promise<UserMemoryResponse> {
+    return fetchDecoded(
+      schema.UserMemoryResponse,
+      'userMemories.upsertUserMemory',
+      '/user-memories',
+      {
+        method: 'PUT',
+        body: memoryData,
+      }
+    )
+  },
+
+  /**
+   * Forget a remembered fact
+   * @throws {FetchError} When the API request fails
+   */
+  async deleteUserMemory(
+    userId: string,
+    guildId: string,
+    key: string
+  ): Promise<MessageResponse> {
+    return fetchDecoded(
+      schema.MessageResponse,
+      'userMemories.deleteUserMemory',
+      '/user-memories',
+      {
+        method: 'DELETE',
+        query: { userId, guildId, key },
+      }
+    )
   },
 }
 
@@ -717,6 +821,7 @@ export const wordResponseApi = {
 
 /**
  * Standardized API error class for Effect-based error handling
+ * Used for network failures and statuses without a more specific error
  */
 export class ApiError extends Data.TaggedError('ApiError')<{
   message: string
@@ -725,6 +830,108 @@ export class ApiError extends Data.TaggedError('ApiError')<{
   originalError?: unknown
 }> {}
 
+interface ApiErrorFields {
+  message: string
+  endpoint?: string
+  statusCode?: number
+  originalError?: unknown
+}
+
+/**
+ * 404, the requested record doesn't exist
+ */
+export class NotFound extends Data.TaggedError('NotFound')<ApiErrorFields> {}
+
+/**
+ * 402, the user has run out of message credits
+ */
+export class InsufficientCredits extends Data.TaggedError(
+  'InsufficientCredits'
+)<ApiErrorFields> {}
+
+/**
+ * 401 or 403, the backend rejected the bot's API key
+ */
+export class Unauthorized extends Data.TaggedError(
+  'Unauthorized'
+)<ApiErrorFields> {}
+
+/**
+ * 429, the backend asks us to slow down
+ */
+export class RateLimited extends Data.TaggedError('RateLimited')<
+  ApiErrorFields & {
+    // From the Retry-After header, when the backend sent one
+    retryAfterMs?: number
+  }
+> {}
+
+/**
+ * 5xx, the backend failed to handle the request
+ */
+export class ServerError extends Data.TaggedError(
+  'ServerError'
+)<ApiErrorFields> {}
+
+/**
+ * The backend didn't answer in time
+ */
+export class Timeout extends Data.TaggedError('Timeout')<ApiErrorFields> {}
+
+/**
+ * The backend answered with something that doesn't match the endpoint's schema
+ */
+export class ApiDecodeError extends Data.TaggedError('ApiDecodeError')<{
+  message: string
+  endpoint: string
+  // Path of the first invalid field, e.g. "data.user.messageCredits"
+  field: string
+  originalError?: unknown
+}> {}
+
+/**
+ * Errors only some endpoints can fail with, declared per endpoint
+ */
+export type EndpointError = NotFound | InsufficientCredits
+
+/**
+ * Errors any endpoint can fail with
+ */
+export type CommonApiError =
+  | Unauthorized
+  | RateLimited
+  | ServerError
+  | Timeout
+  | ApiError
+  | ApiDecodeError
+
+/**
+ * Any failure of an Effect-based API call
+ */
+export type ApiFailure = EndpointError | CommonApiError
+
+/**
+ * Decode a response with its schema
+ * @throws {ApiDecodeError} When the response doesn't match
+ */
+export const decodeResponse = <A, I>(
+  responseSchema: Schema.Schema<A, I>,
+  endpoint: string,
+  response: unknown
+): A => {
+  const result = Schema.decodeUnknownEither(responseSchema)(response)
+  if (Either.isRight(result)) return result.right
+
+  const [issue] = ParseResult.ArrayFormatter.formatErrorSync(result.left)
+  const field = issue?.path.join('.') || '(root)'
+  throw new ApiDecodeError({
+    message: `Invalid response from ${endpoint} at ${field}: ${issue?.message}`,
+    endpoint,
+    field,
+    originalError: result.left,
+  })
+}
+
 /**
  * Legacy error class - will be deprecated in favor of ApiError
  * @deprecated Use ApiError instead
@@ -741,23 +948,71 @@ export function getFetchErrorMessage(error: FetchError): string {
   return `${error.statusCode ? `${error.statusCode}: ` : ''}${error.message}`
 }
 
+const parseRetryAfter = (error: FetchError) => {
+  const seconds = Number(error.response?.headers.get('retry-after'))
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined
+}
+
+/**
+ * Map a failed request to the error its status stands for
+ * Endpoint errors the endpoint didn't declare fall back to ApiError
+ */
+const toApiFailure = (
+  error: FetchError,
+  endpoint: string,
+  expected: ReadonlyArray<EndpointError['_tag']>
+): ApiFailure => {
+  const fields = {
+    message: error.message,
+    endpoint,
+    statusCode: error.statusCode,
+    originalError: error,
+  }
+
+  switch (error.statusCode) {
+    case 404:
+      if (expected.includes('NotFound')) return new NotFound(fields)
+      break
+    case 402:
+      if (expected.includes('InsufficientCredits')) {
+        return new InsufficientCredits(fields)
+      }
+      break
+    case 401:
+    case 403:
+      return new Unauthorized(fields)
+    case 429:
+      return new RateLimited({
+        ...fields,
+        retryAfterMs: parseRetryAfter(error),
+      })
+  }
+
+  if (error.statusCode !== undefined && error.statusCode >= 500) {
+    return new ServerError(fields)
+  }
+
+  return new ApiError(fields)
+}
+
 /**
  * Convert a Promise-based API call to an Effect with standardized error handling
+ * `expected` lists the endpoint errors it can fail with, e.g. ['NotFound']
  */
-export const makeApiEffect = <T>(
+export const makeApiEffect = <T, Tag extends EndpointError['_tag'] = never>(
   apiCall: () => Promise<T>,
-  endpoint: string
-): Effect.Effect<T, ApiError> =>
+  endpoint: string,
+  expected: ReadonlyArray<Tag> = []
+): Effect.Effect<T, Extract<EndpointError, { _tag: Tag }> | CommonApiError> =>
   Effect.tryPromise({
     try: apiCall,
     catch: (error) => {
+      if (error instanceof ApiDecodeError) {
+        return error
+      }
+
       if (error instanceof FetchError) {
-        return new ApiError({
-          message: error.message,
-          statusCode: error.statusCode,
-          endpoint,
-          originalError: error,
-        })
+        return toApiFailure(error, endpoint, expected)
       }
 
       return new ApiError({
@@ -766,7 +1021,7 @@ export const makeApiEffect = <T>(
         originalError: error,
       })
     },
-  })
+  }) as Effect.Effect<T, Extract<EndpointError, { _tag: Tag }> | CommonApiError>
 
 // =====================
 // RESILIENCE PATTERNS & POLICIES
@@ -800,11 +1055,11 @@ export const quickRetryPolicy = Schedule.exponential(Duration.millis(500)).pipe(
 /**
  * Add retry policy to an API Effect with logging
  */
-export const withRetry = <T>(
-  effect: Effect.Effect<T, ApiError>,
+export const withRetry = <T, E extends ApiFailure, R>(
+  effect: Effect.Effect<T, E, R>,
   policy = standardRetryPolicy,
   operation?: string
-): Effect.Effect<T, ApiError> =>
+): Effect.Effect<T, E, R> =>
   effect.pipe(
     Effect.retry(policy),
     Effect.tapError((error) =>
@@ -817,52 +1072,74 @@ export const withRetry = <T>(
 /**
  * Add timeout to an API Effect
  */
-export const withTimeout = <T>(
-  effect: Effect.Effect<T, ApiError>,
+export const withTimeout = <T, E extends ApiFailure, R>(
+  effect: Effect.Effect<T, E, R>,
   duration = Duration.seconds(2)
-): Effect.Effect<T, ApiError> =>
+): Effect.Effect<T, E | Timeout, R> =>
   effect.pipe(
-    Effect.timeout(duration),
-    Effect.catchTag('TimeoutException', (error) =>
-      Effect.fail(
-        new ApiError({
+    Effect.timeoutFail({
+      duration,
+      onTimeout: () =>
+        new Timeout({
           message: `Operation timed out after ${Duration.toMillis(duration)}ms`,
-          originalError: error,
-        })
-      )
-    )
+        }),
+    })
   )
 
 /**
  * Add rate limiting to an API Effect
  */
-export const withRateLimit = <T>(
-  effect: Effect.Effect<T, ApiError>,
+export const withRateLimit = <T, E extends ApiFailure, R>(
+  effect: Effect.Effect<T, E, R>,
   delay = Duration.millis(100)
-): Effect.Effect<T, ApiError> => effect.pipe(Effect.delay(delay))
+): Effect.Effect<T, E, R> => effect.pipe(Effect.delay(delay))
 
 /**
- * Circuit breaker pattern for API calls
- * Opens circuit after 5 failures in 1 minute, closes after 30 seconds
+ * Whether an API error means the backend is unhealthy
+ * Client errors (e.g. NotFound, InsufficientCredits) mean it answered just fine
  */
-export const withCircuitBreaker = <T>(
-  effect: Effect.Effect<T, ApiError>,
+export const isBackendFailure = (error: ApiFailure) => {
+  switch (error._tag) {
+    case 'ServerError':
+    case 'Timeout':
+      return true
+    case 'ApiError':
+      // No status means the backend couldn't be reached at all
+      return error.statusCode === undefined
+    default:
+      return false
+  }
+}
+
+/**
+ * Circuit breaker pattern for API calls, circuits are shared per name
+ * Opens circuit after 5 failures in 1 minute, retries after 30 seconds
+ */
+export const withCircuitBreaker = <T, E extends ApiFailure, R>(
+  effect: Effect.Effect<T, E, R>,
   name: string
-): Effect.Effect<T, ApiError> => {
-  // Simple circuit breaker implementation
-  // In a production app, you'd want a more sophisticated implementation
-  return effect.pipe(
-    Effect.tapError((error) =>
-      Effect.logError(`Circuit breaker [${name}]: ${error.message}`)
+): Effect.Effect<T, E | ApiError, R | CircuitBreaker> =>
+  CircuitBreaker.pipe(
+    Effect.flatMap((breaker) =>
+      breaker.protect(name, effect, isBackendFailure)
+    ),
+    Effect.catchTag('CircuitOpenError', (error) =>
+      Effect.fail(
+        new ApiError({
+          message: `Circuit breaker [${name}] is open, retry in ${error.retryAfterMs}ms`,
+          statusCode: 503,
+          endpoint: name,
+          originalError: error,
+        })
+      )
     )
   )
-}
 
 /**
  * Compose multiple resilience patterns
  */
-export const withResilience = <T>(
-  effect: Effect.Effect<T, ApiError>,
+export const withResilience = <T, E extends ApiFailure>(
+  effect: Effect.Effect<T, E>,
   options: {
     retry?: typeof standardRetryPolicy
     timeout?: Duration.Duration
@@ -870,8 +1147,12 @@ export const withResilience = <T>(
     circuitBreaker?: string
     operation?: string
   } = {}
-): Effect.Effect<T, ApiError> => {
-  let resilientEffect = effect
+): Effect.Effect<T, E | Timeout | ApiError, CircuitBreaker> => {
+  let resilientEffect: Effect.Effect<
+    T,
+    E | Timeout | ApiError,
+    CircuitBreaker
+  > = effect
 
   // Apply rate limiting first
   if (options.rateLimit) {
@@ -913,7 +1194,7 @@ export const withResilience = <T>(
 export const userEffectApi = {
   getUsers: () => makeApiEffect(() => userApi.getUsers(), 'users.getUsers'),
   getUser: (userId: string) =>
-    makeApiEffect(() => userApi.getUser(userId), 'users.getUser'),
+    makeApiEffect(() => userApi.getUser(userId), 'users.getUser', ['NotFound']),
   createUser: (userData: CreateUserRequest) =>
     makeApiEffect(() => userApi.createUser(userData), 'users.createUser'),
   updateUser: (userId: string, updateData: Omit<UpdateUserRequest, 'userId'>) =>
@@ -932,11 +1213,15 @@ export const guildEffectApi = {
   getGuilds: () =>
     makeApiEffect(() => guildApi.getGuilds(), 'guilds.getGuilds'),
   getGuild: (guildId: string) =>
-    makeApiEffect(() => guildApi.getGuild(guildId), 'guilds.getGuild'),
+    makeApiEffect(() => guildApi.getGuild(guildId), 'guilds.getGuild', [
+      'NotFound',
+    ]),
   createGuild: (guildData: CreateGuildRequest) =>
     makeApiEffect(() => guildApi.createGuild(guildData), 'guilds.createGuild'),
   deleteGuild: (guildId: string) =>
-    makeApiEffect(() => guildApi.deleteGuild(guildId), 'guilds.deleteGuild'),
+    makeApiEffect(() => guildApi.deleteGuild(guildId), 'guilds.deleteGuild', [
+      'NotFound',
+    ]),
 }
 
 /**
@@ -948,7 +1233,8 @@ export const channelEffectApi = {
   getChannel: (channelId: string) =>
     makeApiEffect(
       () => channelApi.getChannel(channelId),
-      'channels.getChannel'
+      'channels.getChannel',
+      ['NotFound']
     ),
   createChannel: (channelData: CreateChannelRequest) =>
     makeApiEffect(
@@ -958,7 +1244,8 @@ export const channelEffectApi = {
   deleteChannel: (channelId: string) =>
     makeApiEffect(
       () => channelApi.deleteChannel(channelId),
-      'channels.deleteChannel'
+      'channels.deleteChannel',
+      ['NotFound']
     ),
 }
 
@@ -974,7 +1261,8 @@ export const userGuildEffectApi = {
   getUserGuild: (userId: string, guildId: string) =>
     makeApiEffect(
       () => userGuildApi.getUserGuild(userId, guildId),
-      'userGuilds.getUserGuild'
+      'userGuilds.getUserGuild',
+      ['NotFound']
     ),
   createUserGuild: (userGuildData: CreateUserGuildRequest) =>
     makeApiEffect(
@@ -988,7 +1276,8 @@ export const userGuildEffectApi = {
   ) =>
     makeApiEffect(
       () => userGuildApi.updateUserGuild(userId, guildId, updateData),
-      'userGuilds.updateUserGuild'
+      'userGuilds.updateUserGuild',
+      ['NotFound']
     ),
 }
 
@@ -1015,10 +1304,23 @@ export const tokenEffectApi = {
  * Effect-based System Prompt API with standardized error handling
  */
 export const systemPromptEffectApi = {
+  // An unset prompt is reported as NotFound, so callers always get a prompt
   getSystemPrompt: () =>
     makeApiEffect(
       () => systemPromptApi.getSystemPrompt(),
-      'systemPrompt.getSystemPrompt'
+      'systemPrompt.getSystemPrompt',
+      ['NotFound']
+    ).pipe(
+      Effect.flatMap(({ prompt }) =>
+        prompt
+          ? Effect.succeed(prompt)
+          : Effect.fail(
+              new NotFound({
+                message: 'No system prompt has been set',
+                endpoint: 'systemPrompt.getSystemPrompt',
+              })
+            )
+      )
     ),
   setSystemPrompt: (prompt: string) =>
     makeApiEffect(
@@ -1041,14 +1343,20 @@ export const lyricsEffectApi = {
   getLyricsByTitle: (artist: string) =>
     makeApiEffect(
       () => lyricsApi.getLyricsByTitle(artist),
-      'lyrics.getLyricsByTitle'
+      'lyrics.getLyricsByTitle',
+      ['NotFound']
     ),
   getLyrics: (artist: string, title: string) =>
-    makeApiEffect(() => lyricsApi.getLyrics(artist, title), 'lyrics.getLyrics'),
+    makeApiEffect(
+      () => lyricsApi.getLyrics(artist, title),
+      'lyrics.getLyrics',
+      ['NotFound']
+    ),
   updateLyrics: (artist: string, title: string, updates: UpdateLyricsRequest) =>
     makeApiEffect(
       () => lyricsApi.updateLyrics(artist, title, updates),
-      'lyrics.updateLyrics'
+      'lyrics.updateLyrics',
+      ['NotFound']
     ),
 }
 
@@ -1064,7 +1372,8 @@ export const discordOpsEffectApi = {
   recordUserMessage: (request: RecordUserMessageRequest) =>
     makeApiEffect(
       () => discordOpsApi.recordUserMessage(request),
-      'discord.recordUserMessage'
+      'discord.recordUserMessage',
+      ['InsufficientCredits']
     ),
 }
 
@@ -1072,7 +1381,8 @@ export const wordOfTheDayEffectApi = {
   getTodaysWord: () =>
     makeApiEffect(
       () => wordOfTheDayApi.getTodaysWord(),
-      'wordOfTheDay.getTodaysWord'
+      'wordOfTheDay.getTodaysWord',
+      ['NotFound']
     ),
 }
 
@@ -1080,7 +1390,8 @@ export const wordResponseEffectApi = {
   getWordResponse: () =>
     makeApiEffect(
       () => wordResponseApi.getWordResponse(),
-      'wordResponse.getWordResponse'
+      'wordResponse.getWordResponse',
+      ['NotFound']
     ),
   updateWordResponse: (updateData: UpdateWordResponseRequest) =>
     makeApiEffect(
@@ -1090,7 +1401,30 @@ export const wordResponseEffectApi = {
   deleteWordResponse: () =>
     makeApiEffect(
       () => wordResponseApi.deleteWordResponse(),
-      'wordResponse.deleteWordResponse'
+      'wordResponse.deleteWordResponse',
+      ['NotFound']
+    ),
+}
+
+/**
+ * Effect-based User Memory API with standardized error handling
+ */
+export const userMemoryEffectApi = {
+  getUserMemories: (userId: string, guildId: string) =>
+    makeApiEffect(
+      () => userMemoryApi.getUserMemories(userId, guildId),
+      'userMemories.getUserMemories'
+    ),
+  upsertUserMemory: (memoryData: UpsertUserMemoryRequest) =>
+    makeApiEffect(
+      () => userMemoryApi.upsertUserMemory(memoryData),
+      'userMemories.upsertUserMemory'
+    ),
+  deleteUserMemory: (userId: string, guildId: string, key: string) =>
+    makeApiEffect(
+      () => userMemoryApi.deleteUserMemory(userId, guildId, key),
+      'userMemories.deleteUserMemory',
+      ['NotFound']
     ),
 }
 
@@ -1112,6 +1446,7 @@ export const effectApi = {
   leaderboard: leaderboardEffectApi,
   wordOfTheDay: wordOfTheDayEffectApi,
   wordResponse: wordResponseEffectApi,
+  userMemories: userMemoryEffectApi,
 }
 
 // =====================
@@ -1136,6 +1471,7 @@ export const promiseApi = {
   leaderboard: leaderboardApi,
   wordOfTheDay: wordOfTheDayApi,
   wordResponse: wordResponseApi,
+  userMemories: userMemoryApi,
 }
 
 /**
@@ -1,5 +1,14 @@
 import { Context, Effect, Layer } from 'effect'
-import { api, effectApi, promiseApi } from './client'
+import { config } from '../config'
+import { CircuitBreaker, CircuitBreakerLive } from './circuitBreaker'
+import {
+  type ApiFailure,
+  api,
+  effectApi,
+  promiseApi,
+  withCircuitBreaker,
+} from './client'
+import { makeMemoryEffectApi } from './memory'
 
 /**
  * API Service Tag for dependency injection
@@ -14,19 +23,67 @@ export class ApiService extends Context.Tag('ApiService')<
   }
 >() {}
 
+type ApiCall = (...args: never[]) => Effect.Effect<unknown, ApiFailure>
+
 /**
- * API Service Layer - provides the API clients
+ * Route every Effect-based API call through the circuit of its group,
+ * e.g. all `effectApi.channels` calls share the "channels" circuit
  */
-export const ApiServiceLive = Layer.succeed(ApiService, {
-  effectApi,
+const protectEffectApi = (breaker: CircuitBreaker['Type']): typeof effectApi =>
+  Object.fromEntries(
+    Object.entries(effectApi).map(([group, calls]) => [
+      group,
+      Object.fromEntries(
+        Object.entries(calls as Record<string, ApiCall>).map(([name, call]) => [
+          name,
+          (...args: never[]) =>
+            withCircuitBreaker(call(...args), group).pipe(
+              Effect.provideService(CircuitBreaker, breaker)
+            ),
+        ])
+      ),
+    ])
+  ) as typeof effectApi
+
+/**
+ * HTTP API Service Layer - provides the API clients for the backend
+ * Effect-based calls fail fast while the backend is down
+ */
+export const ApiServiceHttp = Layer.effect(
+  ApiService,
+  Effect.gen(function* () {
+    const breaker = yield* CircuitBreaker
+
+    return {
+      effectApi: protectEffectApi(breaker),
+      promiseApi,
+      rawClient: api,
+    }
+  })
+).pipe(Layer.provide(CircuitBreakerLive))
+
+/**
+ * In-memory API Service Layer - effectApi is served from an in-memory store
+ * The deprecated promiseApi and rawClient still talk to the backend
+ */
+export const ApiServiceMemory = Layer.sync(ApiService, () => ({
+  effectApi: makeMemoryEffectApi(),
   promiseApi,
   rawClient: api,
-})
+}))
+
+/**
+ * API Service Layer selected by API_MODE
+ */
+export const ApiServiceLive =
+  config.apiMode === 'memory' ? ApiServiceMemory : ApiServiceHttp
 
 /**
  * Re-export the API client and types for direct usage
  */
+export * from './circuitBreaker'
 export * from './client'
+export * from './memory'
 export { api, effectApi, promiseApi }
 
 /**
@@ -0,0 +1,495 @@
+import { Effect } from 'effect'
+import {
+  ApiError,
+  type Channel,
+  type Guild,
+  InsufficientCredits,
+  type Lyrics,
+  NotFound,
+  type User,
+  type UserGuild,
+  type UserMemory,
+  type WordResponse,
+  type effectApi,
+} from './client'
+
+/**
+ * In-memory implementation of the backend API
+ *
+ * Has the same shape as effectApi, so the bot can run without the backend,
+ * e.g. for offline development and tests. Nothing is persisted.
+ * Every call runs synchronously, so updates such as recordUserMessage
+ * are atomic like their backend counterparts.
+ */
+
+export interface MemoryApiSeed {
+  // Message credits a new user starts with
+  initialCredits?: number
+  systemPrompt?: string | null
+  // Words of the day, one is picked per UTC day
+  words?: readonly string[]
+  // Whitelisted channels as [channelId, guildId]
+  channels?: readonly (readonly [string, string])[]
+  lyrics?: readonly { artist: string; title: string; lyrics: string }[]
+}
+
+const DEFAULT_SYSTEM_PROMPT =
+  'You are Kasane Teto, a cheerful and playful virtual singer chatting in a Discord server.'
+
+const DEFAULT_WORDS = ['baguette', 'chimera', 'drill', 'twintails', 'utau']
+
+const now = () => new Date().toISOString()
+
+const utcDate = (iso: string) => iso.slice(0, 10)
+
+const userGuildKey = (userId: string, guildId: string) => `${userId}:${guildId}`
+
+const lyricsKey = (artist: string, title: string) =>
+  `${artist.toLowerCase()}:${title.toLowerCase()}`
+
+const message = (text: string) => ({ data: { message: text } })
+
+const notFound = (endpoint: string, what: string) =>
+  new NotFound({ message: `${what} not found`, endpoint, statusCode: 404 })
+
+// For endpoints that don't declare NotFound, like the backend would answer
+const missing = (endpoint: string, what: string) =>
+  new ApiError({ message: `${what} not found`, endpoint, statusCode: 404 })
+
+const find = <K, V, E>(map: Map<K, V>, key: K, onMissing: () => E) =>
+  Effect.suspend(() => {
+    const value = map.get(key)
+    return value === undefined
+      ? Effect.fail(onMissing())
+      : Effect.succeed(value)
+  })
+
+/**
+ * Create an in-memory effectApi, each call gets its own empty store
+ */
+export const makeMemoryEffectApi = (
+  seed: MemoryApiSeed = {}
+): typeof effectApi => {
+  const initialCredits = seed.initialCredits ?? 100
+  const words = seed.words ?? DEFAULT_WORDS
+
+  const users = new Map<string, User>()
+  const guilds = new Map<string, Guild>()
+  const channels = new Map<string, Channel>()
+  const userGuilds = new Map<string, UserGuild>()
+  const lyrics = new Map<string, Lyrics>()
+  const userMemories = new Map<string, UserMemory>()
+  let systemPrompt =
+    seed.systemPrompt === undefined ? DEFAULT_SYSTEM_PROMPT : seed.systemPrompt
+  let wordResponse: WordResponse | null = null
+  let nextId = 1
+
+  const upsertUser = (userId: string, role?: 'user' | 'admin') => {
+    const existing = users.get(userId)
+    if (existing) return existing
+
+    const timestamp = now()
+    const user: User = {
+      userId,
+      role: role ?? 'user',
+      messageCredits: initialCredits,
+      insertedAt: timestamp,
+      updatedAt: timestamp,
+    }
+    users.set(userId, user)
+    return user
+  }
+
+  const upsertGuild = (guildId: string) => {
+    const existing = guilds.get(guildId)
+    if (existing) return existing
+
+    const timestamp = now()
+    const guild: Guild = {
+      id: String(nextId++),
+      guildId,
+      insertedAt: timestamp,
+      updatedAt: timestamp,
+    }
+    guilds.set(guildId, guild)
+    return guild
+  }
+
+  const upsertUserGuild = (
+    userId: string,
+    guildId: string,
+    values: Partial<UserGuild> = {}
+  ) => {
+    upsertUser(userId)
+    upsertGuild(guildId)
+
+    const key = userGuildKey(userId, guildId)
+    const timestamp = now()
+    const userGuild: UserGuild = {
+      userId,
+      guildId,
+      intimacy: 0,
+      dailyMessageCount: 0,
+      insertedAt: timestamp,
+      ...userGuilds.get(key),
+      ...values,
+      updatedAt: timestamp,
+    }
+    userGuilds.set(key, userGuild)
+    return userGuild
+  }
+
+  const upsertChannel = (channelId: string, guildId: string) => {
+    upsertGuild(guildId)
+
+    const timestamp = now()
+    const channel: Channel = {
+      id: String(nextId++),
+      channelId,
+      guildId,
+      insertedAt: timestamp,
+      updatedAt: timestamp,
+    }
+    channels.set(channelId, channel)
+    return channel
+  }
+
+  const upsertLyrics = (artist: string, title: string, text: string) => {
+    const key = lyricsKey(artist, title)
+    const timestamp = now()
+    const entry: Lyrics = {
+      artist,
+      title,
+      lyrics: text,
+      createdAt: lyrics.get(key)?.createdAt ?? timestamp,
+      updatedAt: timestamp,
+    }
+    lyrics.set(key, entry)
+    return entry
+  }
+
+  for (const [channelId, guildId] of seed.channels ?? []) {
+    upsertChannel(channelId, guildId)
+  }
+  for (const entry of seed.lyrics ?? []) {
+    upsertLyrics(entry.artist, entry.title, entry.lyrics)
+  }
+
+  return {
+    users: {
+      getUsers: () =>
+        Effect.sync(() => ({ data: { users: [...users.values()] } })),
+      getUser: (userId) =>
+        find(users, userId, () => notFound('users.getUser', 'User')).pipe(
+          Effect.map((user) => ({ data: { user } }))
+        ),
+      createUser: ({ userId, role }) =>
+        Effect.sync(() => ({ data: { user: upsertUser(userId, role) } })),
+      updateUser: (userId, { role, messageCredits, lastVotedAt }) =>
+        find(users, userId, () => missing('users.updateUser', 'User')).pipe(
+          Effect.map((existing) => {
+            const user: User = {
+              ...existing,
+              ...(role && { role }),
+              ...(messageCredits && {
+                messageCredits: Number(messageCredits),
+              }),
+              ...(lastVotedAt && { lastVotedAt }),
+              updatedAt: now(),
+            }
+            users.set(userId, user)
+            return { data: { user } }
+          })
+        ),
+      deleteUser: (userId) =>
+        find(users, userId, () => missing('users.deleteUser', 'User')).pipe(
+          Effect.map(() => {
+            users.delete(userId)
+            return message('User deleted')
+          })
+        ),
+    },
+
+    guilds: {
+      getGuilds: () =>
+        Effect.sync(() => ({ data: { guilds: [...guilds.values()] } })),
+      getGuild: (guildId) =>
+        find(guilds, guildId, () => notFound('guilds.getGuild', 'Guild')).pipe(
+          Effect.map((guild) => ({ data: { guild } }))
+        ),
+      createGuild: ({ guildId }) =>
+        Effect.sync(() => ({ data: { guild: upsertGuild(guildId) } })),
+      // Channels and user-guilds of the guild go with it
+      deleteGuild: (guildId) =>
+        find(guilds, guildId, () =>
+          notFound('guilds.deleteGuild', 'Guild')
+        ).pipe(
+          Effect.map(() => {
+            guilds.delete(guildId)
+            for (const [key, channel] of channels) {
+              if (channel.guildId === guildId) channels.delete(key)
+            }
+            for (const [key, userGuild] of userGuilds) {
+              if (userGuild.guildId === guildId) userGuilds.delete(key)
+            }
+            return message('Guild deleted')
+          })
+        ),
+    },
+
+    channels: {
+      getChannels: () =>
+        Effect.sync(() => ({ data: { channels: [...channels.values()] } })),
+      getChannel: (channelId) =>
+        find(channels, channelId, () =>
+          notFound('channels.getChannel', 'Channel')
+        ).pipe(Effect.map((channel) => ({ data: { channel } }))),
+      createChannel: ({ channelId, guildId }) =>
+        Effect.sync(() => ({
+          data: { channel: upsertChannel(channelId, guildId) },
+        })),
+      deleteChannel: (channelId) =>
+        find(channels, channelId, () =>
+          notFound('channels.deleteChannel', 'Channel')
+        ).pipe(
+          Effect.map(() => {
+            channels.delete(channelId)
+            return message('Channel deleted')
+          })
+        ),
+    },
+
+    userGuilds: {
+      getUserGuilds: () =>
+        Effect.sync(() => ({ data: { userGuilds: [...userGuilds.values()] } })),
+      getUserGuild: (userId, guildId) =>
+        find(userGuilds, userGuildKey(userId, guildId), () =>
+          notFound('userGuilds.getUserGuild', 'User guild')
+        ).pipe(Effect.map((userGuild) => ({ data: { userGuild } }))),
+      createUserGuild: ({ userId, guildId, dailyMessageCount, ...values }) =>
+        Effect.sync(() => ({
+          data: {
+            userGuild: upsertUserGuild(userId, guildId, {
+              ...values,
+              ...(dailyMessageCount && {
+                dailyMessageCount: Number(dailyMessageCount),
+              }),
+            }),
+          },
+        })),
+      updateUserGuild: (userId, guildId, { dailyMessageCount, ...values }) =>
+        find(userGuilds, userGuildKey(userId, guildId), () =>
+          notFound('userGuilds.updateUserGuild', 'User guild')
+        ).pipe(
+          Effect.map(() => ({
+            data: {
+              userGuild: upsertUserGuild(userId, guildId, {
+                ...values,
+                ...(dailyMessageCount && {
+                  dailyMessageCount: Number(dailyMessageCount),
+                }),
+              }),
+            },
+          }))
+        ),
+    },
+
+    tokens: {
+      // Rough estimate, about 4 characters per token
+      getTokenCount: (text) =>
+        Effect.succeed({
+          token_count: Math.ceil(text.length / 4),
+          text_length: text.length,
+        }),
+    },
+
+    systemPrompt: {
+      getSystemPrompt: () =>
+        Effect.suspend(() =>
+          systemPrompt
+            ? Effect.succeed(systemPrompt)
+            : Effect.fail(
+                notFound('systemPrompt.getSystemPrompt', 'System prompt')
+              )
+        ),
+      setSystemPrompt: (prompt) =>
+        Effect.sync(() => {
+          systemPrompt = prompt
+          return { success: true, message: 'System prompt updated' }
+        }),
+    },
+
+    lyrics: {
+      getAllLyrics: () =>
+        Effect.sync(() => ({ data: { lyrics: [...lyrics.values()] } })),
+      createLyrics: ({ artist, title, lyrics: text }) =>
+        Effect.sync(() => ({
+          data: { lyrics: upsertLyrics(artist, title, text) },
+        })),
+      getLyricsByTitle: (title) =>
+        Effect.suspend(() => {
+          const matches = [...lyrics.values()].filter(
+            (entry) => entry.title.toLowerCase() === title.toLowerCase()
+          )
+          return matches.length > 0
+            ? Effect.succeed({ data: { lyrics: matches } })
+            : Effect.fail(notFound('lyrics.getLyricsByTitle', 'Lyrics'))
+        }),
+      getLyrics: (artist, title) =>
+        find(lyrics, lyricsKey(artist, title), () =>
+          notFound('lyrics.getLyrics', 'Lyrics')
+        ).pipe(Effect.map((entry) => ({ data: { lyrics: entry } }))),
+      updateLyrics: (artist, title, { lyrics: text }) =>
+        find(lyrics, lyricsKey(artist, title), () =>
+          notFound('lyrics.updateLyrics', 'Lyrics')
+        ).pipe(
+          Effect.map((entry) => ({
+            data: { lyrics: upsertLyrics(entry.artist, entry.title, text) },
+          }))
+        ),
+    },
+
+    discord: {
+      ensureUserGuildExists: ({ userId, guildId, role }) =>
+        Effect.sync(() => {
+          const user = upsertUser(userId, role)
+          const userGuild =
+            userGuilds.get(userGuildKey(userId, guildId)) ??
+            upsertUserGuild(userId, guildId)
+          return { data: { user, userGuild } }
+        }),
+      // Spends a credit, and bumps intimacy and the daily count in the guild
+      recordUserMessage: ({ userId, guildId, intimacyIncrement = 1 }) =>
+        Effect.suspend(() => {
+          const existing = upsertUser(userId)
+          if (existing.messageCredits <= 0) {
+            return Effect.fail(
+              new InsufficientCredits({
+                message: 'Not enough message credits',
+                endpoint: 'discord.recordUserMessage',
+                statusCode: 402,
+              })
+            )
+          }
+
+          const timestamp = now()
+          const user: User = {
+            ...existing,
+            messageCredits: existing.messageCredits - 1,
+            updatedAt: timestamp,
+          }
+          users.set(userId, user)
+
+          if (!guildId) {
+            return Effect.succeed({ data: { user } })
+          }
+
+          const previous = userGuilds.get(userGuildKey(userId, guildId))
+          const sameDay =
+            previous?.lastMessageAt !== undefined &&
+            utcDate(previous.lastMessageAt) === utcDate(timestamp)
+          const userGuild = upsertUserGuild(userId, guildId, {
+            intimacy: (previous?.intimacy ?? 0) + intimacyIncrement,
+            dailyMessageCount: sameDay
+              ? (previous?.dailyMessageCount ?? 0) + 1
+              : 1,
+            lastMessageAt: timestamp,
+          })
+
+          return Effect.succeed({ data: { user, userGuild } })
+        }),
+    },
+
+    leaderboard: {
+      getIntimacyLeaderboard: ({ guildId, limit = 10 }) =>
+        Effect.sync(() => ({
+          data: {
+            leaderboard: [...userGuilds.values()]
+              .filter((userGuild) => userGuild.guildId === guildId)
+              .sort((a, b) => b.intimacy - a.intimacy)
+              .slice(0, limit),
+            guildId,
+            limit,
+          },
+        })),
+    },
+
+    wordOfTheDay: {
+      getTodaysWord: () =>
+        Effect.suspend(() => {
+          if (words.length === 0) {
+            return Effect.fail(
+              notFound('wordOfTheDay.getTodaysWord', 'Word of the day')
+            )
+          }
+          const date = utcDate(now())
+          const day = Math.floor(Date.parse(date) / (1000 * 60 * 60 * 24))
+          return Effect.succeed({
+            data: { word: words[day % words.length], date },
+          })
+        }),
+    },
+
+    wordResponse: {
+      getWordResponse: () =>
+        Effect.suspend(() =>
+          wordResponse
+            ? Effect.succeed({ data: wordResponse })
+            : Effect.fail(
+                notFound('wordResponse.getWordResponse', 'Word response')
+              )
+        ),
+      updateWordResponse: ({ response }) =>
+        Effect.sync(() => {
+          wordResponse = { response, updatedAt: now() }
+          return { data: wordResponse }
+        }),
+      deleteWordResponse: () =>
+        Effect.suspend(() => {
+          if (!wordResponse) {
+            return Effect.fail(
+              notFound('wordResponse.deleteWordResponse', 'Word response')
+            )
+          }
+          wordResponse = null
+          return Effect.succeed(message('Word response deleted'))
+        }),
+    },
+
+    userMemories: {
+      getUserMemories: (userId, guildId) =>
+        Effect.sync(() => ({
+          data: {
+            memories: [...userMemories.values()].filter(
+              (memory) => memory.userId === userId && memory.guildId === guildId
+            ),
+          },
+        })),
+      upsertUserMemory: ({ userId, guildId, key, value }) =>
+        Effect.sync(() => {
+          const memoryKey = `${userGuildKey(userId, guildId)}:${key}`
+          const timestamp = now()
+          const memory: UserMemory = {
+            userId,
+            guildId,
+            key,
+            value,
+            insertedAt: userMemories.get(memoryKey)?.insertedAt ?? timestamp,
+            updatedAt: timestamp,
+          }
+          userMemories.set(memoryKey, memory)
+          return { data: { memory } }
+        }),
+      deleteUserMemory: (userId, guildId, key) =>
+        Effect.suspend(() => {
+          const memoryKey = `${userGuildKey(userId, guildId)}:${key}`
+          if (!userMemories.delete(memoryKey)) {
+            return Effect.fail(
+              notFound('userMemories.deleteUserMemory', 'Memory')
+            )
+          }
+          return Effect.succeed(message('Memory deleted'))
+        }),
+    },
+  }
+}
@@ -0,0 +1,145 @@
+import { Schema } from 'effect'
+
+/**
+ * Schemas of backend API responses
+ *
+ * Every response is decoded before it reaches the rest of the bot,
+ * so the types below are what the backend is checked to have sent.
+ */
+
+// Counters the backend sends as strings (Postgres bigint) become numbers
+const NumericString = Schema.Union(Schema.Number, Schema.NumberFromString)
+
+// Optional fields may also come back as null
+const OptionalString = Schema.optionalWith(Schema.String, { nullable: true })
+
+const Role = Schema.Literal('user', 'admin')
+
+// =====================
+// ENTITIES
+// =====================
+
+export const User = Schema.Struct({
+  userId: Schema.String,
+  insertedAt: Schema.String,
+  updatedAt: Schema.String,
+  role: Schema.optionalWith(Role, { nullable: true }),
+  lastVotedAt: OptionalString,
+  messageCredits: NumericString,
+})
+
+export const Guild = Schema.Struct({
+  id: Schema.String,
+  guildId: Schema.String,
+  insertedAt: Schema.String,
+  updatedAt: Schema.String,
+})
+
+export const Channel = Schema.Struct({
+  id: Schema.String,
+  channelId: Schema.String,
+  guildId: Schema.String,
+  insertedAt: Schema.String,
+  updatedAt: Schema.String,
+})
+
+export const UserGuild = Schema.Struct({
+  userId: Schema.String,
+  guildId: Schema.String,
+  insertedAt: Schema.String,
+  updatedAt: Schema.String,
+  intimacy: Schema.Number,
+  lastMessageAt: OptionalString,
+  lastFeed: OptionalString,
+  dailyMessageCount: NumericString,
+})
+
+export const Lyrics = Schema.Struct({
+  artist: Schema.String,
+  title: Schema.String,
+  lyrics: Schema.String,
+  createdAt: Schema.String,
+  updatedAt: Schema.String,
+})
+
+export const WordResponse = Schema.Struct({
+  response: Schema.String,
+  updatedAt: Schema.String,
+})
+
+export const UserMemory = Schema.Struct({
+  userId: Schema.String,
+  guildId: Schema.String,
+  key: Schema.String,
+  value: Schema.String,
+  insertedAt: Schema.String,
+  updatedAt: Schema.String,
+})
+
+// =====================
+// RESPONSES
+// =====================
+
+const data = <Fields extends Schema.Struct.Fields>(fields: Fields) =>
+  Schema.Struct({ data: Schema.Struct(fields) })
+
+export const MessageResponse = data({ message: Schema.String })
+
+export const UserResponse = data({ user: User })
+export const UsersResponse = data({ users: Schema.Array(User) })
+
+export const GuildResponse = data({ guild: Guild })
+export const GuildsResponse = data({ guilds: Schema.Array(Guild) })
+
+export const ChannelResponse = data({ channel: Channel })
+export const ChannelsResponse = data({ channels: Schema.Array(Channel) })
+
+export const UserGuildResponse = data({ userGuild: UserGuild })
+export const UserGuildsResponse = data({
+  userGuilds: Schema.Array(UserGuild),
+})
+
+export const LeaderboardResponse = data({
+  leaderboard: Schema.Array(UserGuild),
+  guildId: Schema.String,
+  limit: NumericString,
+})
+
+export const TokenResponse = Schema.Struct({
+  token_count: Schema.Number,
+  text_length: Schema.Number,
+})
+
+export const SystemPromptResponse = Schema.Struct({
+  prompt: Schema.NullOr(Schema.String),
+})
+
+export const SetSystemPromptResponse = Schema.Struct({
+  success: Schema.Boolean,
+  message: Schema.String,
+})
+
+export const LyricsResponse = data({ lyrics: Lyrics })
+export const LyricsListResponse = data({ lyrics: Schema.Array(Lyrics) })
+
+export const WordOfTheDayResponse = data({
+  word: Schema.String,
+  date: Schema.String,
+})
+
+export const WordResponseResponse = Schema.Struct({ data: WordResponse })
+
+export const UserMemoryResponse = data({ memory: UserMemory })
+export const UserMemoriesResponse = data({
+  memories: Schema.Array(UserMemory),
+})
+
+export const EnsureUserGuildExistsResponse = data({
+  user: User,
+  userGuild: UserGuild,
+})
+
+export const RecordUserMessageResponse = data({
+  user: User,
+  userGuild: Schema.optionalWith(UserGuild, { nullable: true }),
+})
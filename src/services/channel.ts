@@ -1,5 +1,6 @@
-import { Context, Data, Effect, Layer } from 'effect'
+import { Cache, Context, Data, Duration, Effect, Exit, Layer } from 'effect'
 import { ApiService, ApiServiceLive } from './api'
+import { appConfig } from './config'
 
 export class ChannelNotWhitelistedError extends Data.TaggedError(
   'ChannelNotWhitelistedError'
@@ -23,18 +24,52 @@ export class ChannelService extends Context.Tag('ChannelService')<
       userId: string,
       guildId: string
     ) => Effect.Effect<void, never>
+    /**
+     * Forget the cached whitelist status of a channel,
+     * must be called whenever the whitelist changes outside this service
+     */
+    invalidateChannel: (channelId: string) => Effect.Effect<void, never>
+    /**
+     * Fill the whitelist cache with every whitelisted channel
+     */
+    warmUp: Effect.Effect<void, never>
   }
 >() {}
 
 const make = Effect.gen(function* () {
   const apiService = yield* ApiService
+  const config = yield* appConfig
 
-  return ChannelService.of({
-    isChannelWhitelisted: (channelId: string) =>
+  // Whitelist status per channel, a missing channel is cached for less time
+  // Lookup failures other than NotFound aren't cached, so they are retried
+  const whitelistCache = yield* Cache.makeWith({
+    capacity: config.channelCacheCapacity,
+    lookup: (channelId: string) =>
       apiService.effectApi.channels.getChannel(channelId).pipe(
-        Effect.map(() => true),
-        Effect.catchAll(() => Effect.succeed(false))
+        Effect.as(true),
+        Effect.catchTag('NotFound', () => Effect.succeed(false))
       ),
+    timeToLive: (exit) =>
+      Exit.match(exit, {
+        onFailure: () => Duration.zero,
+        onSuccess: (isWhitelisted) =>
+          isWhitelisted
+            ? Duration.millis(config.channelCacheTtlMs)
+            : Duration.millis(config.channelCacheNegativeTtlMs),
+      }),
+  })
+
+  const invalidateChannel = (channelId: string) =>
+    whitelistCache.invalidate(channelId)
+
+  const isChannelWhitelisted = (channelId: string) =>
+    whitelistCache.get(channelId).pipe(
+      // A zero TTL still serves the failure within the same millisecond
+      Effect.catchAll(() => invalidateChannel(channelId).pipe(Effect.as(false)))
+    )
+
+  return ChannelService.of({
+    isChannelWhitelisted,
     checkChannelAccess: (
       channelId: string,
       predicate: (channelId: string) => boolean
@@ -45,10 +80,7 @@ const make = Effect.gen(function* () {
           return true
         }
         // Otherwise check if channel is whitelisted
-        return yield* apiService.effectApi.channels.getChannel(channelId).pipe(
-          Effect.map(() => true),
-          Effect.catchAll(() => Effect.succeed(false))
-        )
+        return yield* isChannelWhitelisted(channelId)
       }),
     whitelistChannel: (channelId: string, userId: string, guildId: string) =>
       Effect.gen(function* () {
@@ -63,20 +95,46 @@ const make = Effect.gen(function* () {
           channelId,
           guildId,
         })
+        yield* whitelistCache.set(channelId, true)
       }).pipe(
         Effect.tapError((error) =>
           Effect.logError(
             `Failed to whitelist channel ${channelId}: ${error.message}`
           )
         ),
-        Effect.catchAll(() => Effect.succeed(undefined))
+        Effect.catchAll(() => invalidateChannel(channelId))
       ),
+    invalidateChannel,
+    warmUp: Effect.gen(function* () {
+      const response = yield* apiService.effectApi.channels.getChannels()
+      const channels = response.data.channels
+
+      yield* Effect.forEach(
+        channels,
+        (channel) => whitelistCache.set(channel.channelId, true),
+        { discard: true }
+      )
+      yield* Effect.logInfo(
+        `Warmed up channel whitelist cache with ${channels.length} channels`
+      )
+    }).pipe(
+      Effect.catchAll((error) =>
+        Effect.logWarning(
+          `Failed to warm up channel whitelist cache: ${error.message}`
+        )
+      )
+    ),
   })
 })
 
 /**
  * Channel Service Implementation (requires ApiService)
  */
-export const ChannelServiceLive = Layer.effect(ChannelService, make).pipe(
+export const ChannelServiceLayer = Layer.effect(ChannelService, make)
+
+/**
+ * Channel Service on the configured ApiService
+ */
+export const ChannelServiceLive = ChannelServiceLayer.pipe(
   Layer.provide(ApiServiceLive)
 )
@@ -2,6 +2,7 @@ import { Client, GatewayIntentBits, Partials } from 'discord.js'
 import type { Collection } from 'discord.js'
 import { Context, Effect, Layer } from 'effect'
 import { appConfig } from './config'
+import { STRICT_ALLOWED_MENTIONS } from './messages/mentions'
 
 // Extend the Discord.js Client type to include commands property
 declare module 'discord.js' {
@@ -25,6 +26,8 @@ export const ClientLive = Layer.effect(
 
     const client = new Client<true>({
       intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages],
+      // Replies that don't set their own policy never ping anyone else
+      allowedMentions: STRICT_ALLOWED_MENTIONS,
     })
 
     yield* Effect.tryPromise(() => client.login(config.botToken))
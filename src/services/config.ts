@@ -1,9 +1,139 @@
-import { Config, Effect } from 'effect'
+import { readFileSync } from 'node:fs'
+import { Config, ConfigProvider, Effect, Option } from 'effect'
 
 import dotenv from 'dotenv'
 
 dotenv.config()
 
+// Settings missing from the environment are read from the JSON file in CONFIG_FILE
+const readConfigFile = (path: string) => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as object
+  } catch (error) {
+    throw new Error(`Failed to read the config file ${path}: ${error}`)
+  }
+}
+
+const configFile = process.env.CONFIG_FILE
+const configProvider = configFile
+  ? ConfigProvider.fromEnv().pipe(
+      ConfigProvider.orElse(() =>
+        ConfigProvider.fromJson(readConfigFile(configFile))
+      )
+    )
+  : ConfigProvider.fromEnv()
+
+const positiveInteger = (name: string, defaultValue: number) =>
+  Config.integer(name).pipe(
+    Config.withDefault(defaultValue),
+    Config.validate({
+      message: `Expected ${name} to be a positive integer`,
+      validation: (value) => value > 0,
+    })
+  )
+
+const numberBetween = (
+  name: string,
+  defaultValue: number,
+  min: number,
+  max: number
+) =>
+  Config.number(name).pipe(
+    Config.withDefault(defaultValue),
+    Config.validate({
+      message: `Expected ${name} to be between ${min} and ${max}`,
+      validation: (value) => value >= min && value <= max,
+    })
+  )
+
+// Per model timeouts, e.g. MODEL_TIMEOUTS_MS=openai/gpt-4.1-mini=20000,model-b=5000
+// Model names can't be variable names, so they're listed in one variable
+const modelTimeoutsConfig = Config.array(
+  Config.string(),
+  'MODEL_TIMEOUTS_MS'
+).pipe(
+  Config.withDefault([] as string[]),
+  Config.map((entries) =>
+    entries
+      .filter((entry) => entry.trim().length > 0)
+      .map((entry) => {
+        const separator = entry.lastIndexOf('=')
+        return separator > 0
+          ? ([
+              entry.slice(0, separator).trim(),
+              Number(entry.slice(separator + 1)),
+            ] as const)
+          : (['', Number.NaN] as const)
+      })
+  ),
+  Config.validate({
+    message: 'Expected MODEL_TIMEOUTS_MS to list model=milliseconds pairs',
+    validation: (entries) =>
+      entries.every(
+        ([model, timeoutMs]) =>
+          model.length > 0 && Number.isInteger(timeoutMs) && timeoutMs > 0
+      ),
+  }),
+  Config.map((entries) => new Map<string, number>(entries))
+)
+
+// Models of a role, e.g. CONVERSATION_MODELS=model-a,model-b
+// with CONVERSATION_MODEL_TIMEOUT_MS, overridden per model by MODEL_TIMEOUTS_MS
+const modelsConfig = (
+  role: string,
+  defaultModels: string[],
+  defaultTimeoutMs: number
+) =>
+  Config.all({
+    models: Config.array(Config.string(), `${role}_MODELS`).pipe(
+      Config.map((models) => models.filter((model) => model.length > 0)),
+      Config.withDefault(defaultModels),
+      Config.validate({
+        message: `Expected ${role}_MODELS to list at least one model`,
+        validation: (models) => models.length > 0,
+      })
+    ),
+    timeoutMs: positiveInteger(`${role}_MODEL_TIMEOUT_MS`, defaultTimeoutMs),
+    timeoutOverrides: modelTimeoutsConfig,
+  }).pipe(
+    Config.map(({ models, timeoutMs, timeoutOverrides }) =>
+      models.map((model) => ({
+        model,
+        timeoutMs: timeoutOverrides.get(model) ?? timeoutMs,
+      }))
+    )
+  )
+
+// Sampling settings given to a role's models
+const generationConfig = (
+  role: string,
+  defaults: {
+    temperature: number
+    topP: number
+    frequencyPenalty: number
+    maxCompletionTokens: number
+  }
+) =>
+  Config.all({
+    temperature: numberBetween(
+      `${role}_TEMPERATURE`,
+      defaults.temperature,
+      0,
+      2
+    ),
+    topP: numberBetween(`${role}_TOP_P`, defaults.topP, 0, 1),
+    frequencyPenalty: numberBetween(
+      `${role}_FREQUENCY_PENALTY`,
+      defaults.frequencyPenalty,
+      -2,
+      2
+    ),
+    maxCompletionTokens: positiveInteger(
+      `${role}_MAX_COMPLETION_TOKENS`,
+      defaults.maxCompletionTokens
+    ),
+  })
+
 export const appConfig = Effect.gen(function* () {
   return {
     nodeEnv: yield* Config.string('NODE_ENV').pipe(
@@ -12,30 +142,212 @@ export const appConfig = Effect.gen(function* () {
     botApiKey: yield* Config.string('BOT_API_KEY'),
     botToken: yield* Config.string('BOT_TOKEN'),
     clientId: yield* Config.string('CLIENT_ID'),
-    databaseUrl: yield* Config.string('DATABASE_URL'),
+    // Conversations are kept in memory when there's no database (or it's empty)
+    databaseUrl: yield* Config.option(Config.string('DATABASE_URL')).pipe(
+      Config.map(Option.filter((url) => url.length > 0))
+    ),
     topggToken: yield* Config.string('TOPGG_TOKEN'),
     apiBaseUrl: yield* Config.string('API_BASE_URL').pipe(
       Config.withDefault('http://localhost:3000')
     ),
+    // 'memory' serves the backend API from an in-memory store instead
+    apiMode: yield* Config.literal(
+      'http',
+      'memory'
+    )('API_MODE').pipe(Config.withDefault('http' as const)),
     langsmithApiKey: yield* Config.string('LANGSMITH_API_KEY'),
     langsmithProject: yield* Config.string('LANGSMITH_PROJECT'),
     openrouterApiKey: yield* Config.string('OPENROUTER_API_KEY'),
     openrouterBaseUrl: yield* Config.string('OPENROUTER_BASE_URL'),
-    conversationModel: 'meta-llama/llama-4-maverick-17b-128e-instruct',
-    summarizationModel: 'meta-llama/llama-3.1-8b-instruct',
-    visionModel: 'meta-llama/llama-4-maverick-17b-128e-instruct',
-    devGuildId: '1374179000192339979',
-    voteUrl: 'https://top.gg/bot/1374166544149512313/vote',
-    maxWords: 150,
-    summarizationThreshold: 16,
+    // Guilds where a plain reply to Teto counts as addressing her
+    replyTriggerGuildIds: yield* Config.array(
+      Config.string(),
+      'REPLY_TRIGGER_GUILD_IDS'
+    ).pipe(Config.withDefault([] as string[])),
+    // Guilds where Teto's replies may ping any user, not just the replied-to one
+    userMentionGuildIds: yield* Config.array(
+      Config.string(),
+      'USER_MENTION_GUILD_IDS'
+    ).pipe(Config.withDefault([] as string[])),
+    // Output moderation, terms are matched as whole words ignoring case
+    moderationBlockedTerms: yield* Config.array(
+      Config.string(),
+      'MODERATION_BLOCKED_TERMS'
+    ).pipe(Config.withDefault([] as string[])),
+    moderationSlurs: yield* Config.array(
+      Config.string(),
+      'MODERATION_SLURS'
+    ).pipe(Config.withDefault([] as string[])),
+    // Models per role, tried in order until one answers within its timeout
+    conversationModels: yield* modelsConfig(
+      'CONVERSATION',
+      [
+        'meta-llama/llama-4-maverick-17b-128e-instruct',
+        'meta-llama/llama-3.3-70b-instruct',
+      ],
+      30_000
+    ),
+    summarizationModels: yield* modelsConfig(
+      'SUMMARIZATION',
+      [
+        'meta-llama/llama-3.1-8b-instruct',
+        'mistralai/mistral-small-3.2-24b-instruct',
+      ],
+      30_000
+    ),
+    visionModels: yield* modelsConfig(
+      'VISION',
+      [
+        'meta-llama/llama-4-maverick-17b-128e-instruct',
+        'meta-llama/llama-4-scout',
+      ],
+      45_000
+    ),
+    conversationGeneration: yield* generationConfig('CONVERSATION', {
+      temperature: 0.8,
+      topP: 1,
+      frequencyPenalty: 0.1,
+      maxCompletionTokens: 225,
+    }),
+    summarizationGeneration: yield* generationConfig('SUMMARIZATION', {
+      temperature: 0.15,
+      topP: 1,
+      frequencyPenalty: 0,
+      maxCompletionTokens: 300,
+    }),
+    visionGeneration: yield* generationConfig('VISION', {
+      temperature: 0.8,
+      topP: 1,
+      frequencyPenalty: 0,
+      maxCompletionTokens: 225,
+    }),
+    devGuildId: yield* Config.string('DEV_GUILD_ID').pipe(
+      Config.withDefault('1374179000192339979')
+    ),
+    voteUrl: yield* Config.url('VOTE_URL').pipe(
+      Config.map((url) => url.toString()),
+      Config.withDefault('https://top.gg/bot/1374166544149512313/vote')
+    ),
+    maxWords: yield* positiveInteger('MAX_WORDS', 150),
+    // Images per message given to the vision model, and their size limits
+    maxImagesPerMessage: yield* positiveInteger('MAX_IMAGES_PER_MESSAGE', 4),
+    maxImageBytes: yield* positiveInteger('MAX_IMAGE_BYTES', 1024 * 1024 * 8),
+    // Bigger images aren't decoded at all, smaller ones are downscaled
+    maxImagePixels: yield* positiveInteger('MAX_IMAGE_PIXELS', 100_000_000),
+    // Images are downscaled to fit this size and re-encoded as JPEG
+    imageMaxDimension: yield* positiveInteger('IMAGE_MAX_DIMENSION', 1024),
+    imageQuality: yield* positiveInteger('IMAGE_QUALITY', 80).pipe(
+      Config.validate({
+        message: 'Expected IMAGE_QUALITY to be at most 100',
+        validation: (value) => value <= 100,
+      })
+    ),
+    // Text attachments larger than this aren't read, the rest share the budget
+    maxTextAttachmentBytes: yield* positiveInteger(
+      'MAX_TEXT_ATTACHMENT_BYTES',
+      1024 * 512
+    ),
+    textAttachmentTokenBudget: yield* positiveInteger(
+      'TEXT_ATTACHMENT_TOKEN_BUDGET',
+      3000
+    ),
+    // Facts per user+guild that are injected into the system prompt
+    maxUserMemories: yield* positiveInteger('MAX_USER_MEMORIES', 20),
+    summarizationThreshold: yield* positiveInteger(
+      'SUMMARIZATION_THRESHOLD',
+      16
+    ),
+    // How many messages up a reply chain are given to the model as context
+    replyChainDepth: yield* positiveInteger('REPLY_CHAIN_DEPTH', 3),
     // Minimum is 1, which is the most recent user message
-    recentMessagesKeep: 1,
-    conversationGapThresholdMs: 1000 * 60 * 60 * 2,
-    maxRequests: 8,
-    windowMs: 1000 * 60,
-    cleanupIntervalMs: 1000 * 60 * 5,
+    recentMessagesKeep: yield* positiveInteger('RECENT_MESSAGES_KEEP', 1),
+    conversationGapThresholdMs: yield* positiveInteger(
+      'CONVERSATION_GAP_THRESHOLD_MS',
+      1000 * 60 * 60 * 2
+    ),
+    // Threads idle for longer than this are pruned, checked every interval
+    conversationMaxIdleMs: yield* positiveInteger(
+      'CONVERSATION_MAX_IDLE_MS',
+      1000 * 60 * 60 * 24 * 30
+    ),
+    conversationPruneIntervalMs: yield* positiveInteger(
+      'CONVERSATION_PRUNE_INTERVAL_MS',
+      1000 * 60 * 60 * 6
+    ),
+    // Replies longer than this are sent as longReplyFormat instead of split messages
+    longReplyThreshold: yield* positiveInteger('LONG_REPLY_THRESHOLD', 4000),
+    longReplyFormat: yield* Config.literal(
+      'split',
+      'embed',
+      'file'
+    )('LONG_REPLY_FORMAT').pipe(Config.withDefault('split' as const)),
+    // Minimum delay between edits of a streamed reply
+    streamEditIntervalMs: yield* positiveInteger(
+      'STREAM_EDIT_INTERVAL_MS',
+      1200
+    ),
+    // Channel whitelist cache, channels not in the whitelist expire sooner
+    channelCacheCapacity: yield* positiveInteger(
+      'CHANNEL_CACHE_CAPACITY',
+      10_000
+    ),
+    channelCacheTtlMs: yield* positiveInteger(
+      'CHANNEL_CACHE_TTL_MS',
+      1000 * 60 * 10
+    ),
+    channelCacheNegativeTtlMs: yield* positiveInteger(
+      'CHANNEL_CACHE_NEGATIVE_TTL_MS',
+      1000 * 30
+    ),
+    // Backend circuit breaker, opens after this many failures in the window
+    circuitBreakerFailureThreshold: yield* positiveInteger(
+      'CIRCUIT_BREAKER_FAILURE_THRESHOLD',
+      5
+    ),
+    circuitBreakerWindowMs: yield* positiveInteger(
+      'CIRCUIT_BREAKER_WINDOW_MS',
+      1000 * 60
+    ),
+    circuitBreakerResetMs: yield* positiveInteger(
+      'CIRCUIT_BREAKER_RESET_MS',
+      1000 * 30
+    ),
+    // Requests per channel within the window
+    maxRequests: yield* positiveInteger('RATE_LIMIT_MAX_REQUESTS', 8),
+    windowMs: yield* positiveInteger('RATE_LIMIT_WINDOW_MS', 1000 * 60),
+    cleanupIntervalMs: yield* positiveInteger(
+      'RATE_LIMIT_CLEANUP_INTERVAL_MS',
+      1000 * 60 * 5
+    ),
   }
-})
+}).pipe(Effect.withConfigProvider(configProvider))
+
+export type AppConfig = Effect.Effect.Success<typeof appConfig>
+
+const secretKeys: ReadonlyArray<keyof AppConfig> = [
+  'botApiKey',
+  'botToken',
+  'topggToken',
+  'langsmithApiKey',
+  'openrouterApiKey',
+  'databaseUrl',
+]
+
+/**
+ * The effective configuration, one setting per line with secrets redacted
+ */
+export const formatConfigReport = (config: AppConfig) =>
+  Object.entries(config)
+    .map(([key, value]) => {
+      const shown = Option.isOption(value)
+        ? Option.getOrElse(value, () => undefined)
+        : value
+      if (secretKeys.includes(key as keyof AppConfig)) {
+        return `${key}: ${shown === undefined ? '<not set>' : '<redacted>'}`
+      }
+      return `${key}: ${JSON.stringify(shown)}`
+    })
+    .join('\n')
 
 export const config = Effect.runSync(appConfig)
 export const isProduction = config.nodeEnv === 'production'
@@ -0,0 +1,148 @@
+import { type Client, DiscordAPIError, RESTJSONErrorCodes } from 'discord.js'
+import { Duration, Effect, Option, Schedule } from 'effect'
+import { ApiService } from './api'
+import { appConfig } from './config'
+import { ConversationStore, type ThreadInfo } from './llm'
+
+export interface PruneResult {
+  totalThreads: number
+  // Pruned threads by reason
+  deletedChannel: number
+  notWhitelisted: number
+  idle: number
+  bytesFreed: number
+}
+
+type PruneReason = 'deletedChannel' | 'notWhitelisted' | 'idle'
+
+const emptyResult = (totalThreads: number): PruneResult => ({
+  totalThreads,
+  deletedChannel: 0,
+  notWhitelisted: 0,
+  idle: 0,
+  bytesFreed: 0,
+})
+
+/**
+ * Fetch the whitelisted channel ids, none when the backend can't be reached
+ * so threads aren't pruned because of a backend outage
+ */
+const fetchWhitelistedChannels = Effect.gen(function* () {
+  const apiService = yield* ApiService
+  const response = yield* apiService.effectApi.channels.getChannels()
+
+  return new Set(response.data.channels.map((channel) => channel.channelId))
+}).pipe(
+  Effect.asSome,
+  Effect.catchAll((error) =>
+    Effect.logWarning(
+      `Could not fetch whitelisted channels, keeping threads of channels that aren't whitelisted: ${error.message}`
+    ).pipe(Effect.as(Option.none()))
+  )
+)
+
+/**
+ * Whether a channel was deleted, channels missing from the cache are
+ * confirmed with Discord and only counted as deleted when it doesn't know them
+ */
+const isChannelDeleted = (client: Client, channelId: string) =>
+  client.channels.cache.has(channelId)
+    ? Effect.succeed(false)
+    : Effect.tryPromise({
+        try: () => client.channels.fetch(channelId),
+        catch: (error) => error,
+      }).pipe(
+        Effect.as(false),
+        Effect.catchAll((error) =>
+          error instanceof DiscordAPIError &&
+          error.code === RESTJSONErrorCodes.UnknownChannel
+            ? Effect.succeed(true)
+            : Effect.logWarning(
+                `Could not fetch channel ${channelId}, keeping its thread: ${error instanceof Error ? error.message : String(error)}`
+              ).pipe(Effect.as(false))
+        )
+      )
+
+/**
+ * Delete threads that are idle, not whitelisted or of a channel the bot lost
+ */
+export const pruneConversations = (client: Client) =>
+  Effect.gen(function* () {
+    yield* Effect.logInfo('Starting conversation pruning...')
+
+    const config = yield* appConfig
+    const conversationStore = yield* ConversationStore
+
+    const threads = yield* conversationStore.listThreads
+    const whitelisted = yield* fetchWhitelistedChannels
+    const idleSince = Date.now() - config.conversationMaxIdleMs
+
+    // Threads are keyed by channel id
+    const reasonFor = (
+      thread: ThreadInfo
+    ): Effect.Effect<PruneReason | undefined> =>
+      Effect.gen(function* () {
+        if (
+          (thread.guildId && !client.guilds.cache.has(thread.guildId)) ||
+          (yield* isChannelDeleted(client, thread.threadId))
+        ) {
+          return 'deletedChannel'
+        }
+        if (
+          Option.isSome(whitelisted) &&
+          !whitelisted.value.has(thread.threadId)
+        ) {
+          return 'notWhitelisted'
+        }
+        if (thread.lastActivity.getTime() < idleSince) {
+          return 'idle'
+        }
+        return undefined
+      })
+
+    const result = emptyResult(threads.length)
+    const threadIds: string[] = []
+
+    for (const thread of threads) {
+      const reason = yield* reasonFor(thread)
+      if (!reason) continue
+
+      result[reason]++
+      result.bytesFreed += thread.sizeBytes
+      threadIds.push(thread.threadId)
+    }
+
+    yield* conversationStore.deleteThreads(threadIds)
+
+    yield* Effect.logInfo(
+      `Conversation pruning complete: ${threadIds.length}/${result.totalThreads} threads pruned (${result.deletedChannel} deleted channels, ${result.notWhitelisted} not whitelisted, ${result.idle} idle), ${result.bytesFreed} bytes freed`
+    )
+
+    return result
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.gen(function* () {
+        yield* Effect.logError(`Conversation pruning failed: ${error.message}`)
+        return emptyResult(0)
+      })
+    )
+  )
+
+/**
+ * Start background pruning task using Effect Schedule
+ * Returns an Effect that runs indefinitely and can be interrupted
+ */
+export const startConversationPruningTask = (client: Client) =>
+  Effect.gen(function* () {
+    const config = yield* appConfig
+    const interval = Duration.millis(config.conversationPruneIntervalMs)
+
+    yield* Effect.logInfo(
+      `Starting conversation pruning task (runs every ${Duration.format(interval)})`
+    )
+
+    // Use schedule instead of repeat to skip first execution
+    yield* pruneConversations(client).pipe(
+      Effect.schedule(Schedule.fixed(interval))
+    )
+  })
@@ -2,8 +2,34 @@
  * Discord related services
  */
 
-import { type Message, RESTJSONErrorCodes } from 'discord.js'
-import { Context, Data, Effect, Layer } from 'effect'
+import {
+  AttachmentBuilder,
+  type EmbedBuilder,
+  type Guild,
+  type Message,
+  type MessageMentionOptions,
+  RESTJSONErrorCodes,
+  type RepliableInteraction,
+} from 'discord.js'
+import {
+  Chunk,
+  Context,
+  Data,
+  Duration,
+  Effect,
+  Fiber,
+  Layer,
+  Option,
+  Ref,
+  Schedule,
+  Stream,
+} from 'effect'
+import {
+  EMBED_DESCRIPTION_LIMIT,
+  buildLongReplyEmbeds,
+} from '../embeds/longReply'
+import { config } from './config'
+import { getAllowedMentions, sanitizeMentions } from './messages/mentions'
 
 export class DiscordMessageError extends Data.TaggedError(
   'DiscordMessageError'
@@ -14,20 +40,333 @@ export class DiscordMessageError extends Data.TaggedError(
   guildId?: string | null
 }> {}
 
+export interface StreamReplyOptions<E, R> {
+  readonly check?: (text: string) => Effect.Effect<void, E, R>
+}
+
 export interface DiscordService {
   /**
    * Safely reply to a Discord message with proper error handling for permission issues
+   * Long content is split, or sent in the configured long reply format
+   * Mentions are sanitized and only ping who the guild's policy allows
    */
   readonly reply: (
     message: Message,
     content: string
   ) => Effect.Effect<boolean, DiscordMessageError>
+  /**
+   * Reply with text that is still being generated.
+   * Shows the typing indicator until the first chunk is posted, then edits
+   * the reply as the cumulative text grows, throttled to respect edit limits.
+   * Text over the message limit continues in follow-up messages.
+   * `check` runs on every text about to be rendered, including the final one.
+   * Fails with the stream's error, a partially sent reply is deleted first.
+   */
+  readonly streamReply: <E, R>(
+    message: Message,
+    content: Stream.Stream<string, E, R>,
+    options?: StreamReplyOptions<E, R>
+  ) => Effect.Effect<boolean, E, R>
 }
 
 export const DiscordService =
   Context.GenericTag<DiscordService>('DiscordService')
 
+// =====================
+// MESSAGE SPLITTING
+// =====================
+
+/**
+ * Discord's message content limit
+ */
+export const DISCORD_MESSAGE_LIMIT = 2000
+
+const FENCE_PATTERN = /^\s*```(\S*)/
+const FENCE_CLOSE = '\n```'
+const SENTENCE_END_PATTERN = /[.!?…](?=\s|$)/g
+
+/**
+ * Get the code fence still open at the end of a text, e.g. "```ts"
+ */
+const getOpenFence = (text: string, openFence?: string) => {
+  let fence = openFence
+  for (const line of text.split('\n')) {
+    const match = line.match(FENCE_PATTERN)
+    if (!match) continue
+    fence = fence ? undefined : `\`\`\`${match[1]}`
+  }
+  return fence
+}
+
+/**
+ * Find where to cut a text that doesn't fit in `budget` characters.
+ * Prefers paragraph breaks, then code fence boundaries, sentence ends
+ * outside of code, line breaks, spaces, and cuts hard as a last resort.
+ */
+const findSplitPoint = (text: string, budget: number, openFence?: string) => {
+  const window = text.slice(0, budget)
+  const isCut = window.length < text.length
+  // Boundaries too early in the window would make tiny chunks
+  const minimum = Math.floor(budget / 2)
+
+  let paragraph = -1
+  let fenceBoundary = -1
+  let sentence = -1
+  let lineBreak = -1
+  let inFence = !!openFence
+  let position = 0
+
+  const lines = window.split('\n')
+  for (const [index, line] of lines.entries()) {
+    const end = position + line.length
+    // The last line may be cut in half by the window
+    const isComplete = index < lines.length - 1 || !isCut
+
+    if (FENCE_PATTERN.test(line)) {
+      // Before an opening fence, or after a closing one
+      if (!inFence) fenceBoundary = position
+      else if (isComplete) fenceBoundary = end
+      inFence = !inFence
+    } else if (!inFence) {
+      if (line.trim() === '' && isComplete) paragraph = position
+      for (const match of line.matchAll(SENTENCE_END_PATTERN)) {
+        sentence = position + match.index + 1
+      }
+    }
+
+    if (isComplete) lineBreak = end
+    position = end + 1
+  }
+
+  const candidates = [
+    paragraph,
+    fenceBoundary,
+    sentence,
+    lineBreak,
+    window.lastIndexOf(' '),
+  ]
+  return candidates.find((candidate) => candidate >= minimum) ?? budget
+}
+
+/**
+ * Split text into chunks that fit in a Discord message.
+ * A code block cut in half is closed and reopened with its language.
+ */
+export const splitMessage = (
+  text: string,
+  limit = DISCORD_MESSAGE_LIMIT
+): string[] => {
+  const chunks: string[] = []
+  let remaining = text.trim()
+  let openFence: string | undefined
+
+  while (remaining.length > 0) {
+    const prefix = openFence ? `${openFence}\n` : ''
+    if (prefix.length + remaining.length <= limit) {
+      chunks.push(`${prefix}${remaining}`)
+      break
+    }
+
+    // Keep room to close a code block that gets cut
+    const budget = limit - prefix.length - FENCE_CLOSE.length
+    const cut = findSplitPoint(remaining, budget, openFence)
+    const piece = remaining.slice(0, cut).trimEnd()
+    const fenceAfter = getOpenFence(piece, openFence)
+
+    chunks.push(`${prefix}${piece}${fenceAfter ? FENCE_CLOSE : ''}`)
+
+    // Indentation matters inside code blocks
+    remaining = fenceAfter
+      ? remaining.slice(cut).replace(/^\n+/, '')
+      : remaining.slice(cut).trimStart()
+    openFence = fenceAfter
+
+    // Cut right before the closing fence, the block is already closed
+    const [firstLine = ''] = remaining.split('\n', 1)
+    if (openFence && FENCE_PATTERN.test(firstLine)) {
+      remaining = remaining.slice(firstLine.length).trimStart()
+      openFence = undefined
+    }
+  }
+
+  return chunks
+}
+
+/**
+ * Content of one message, usable for message and interaction replies
+ */
+export interface ReplyPayload {
+  content?: string
+  embeds?: EmbedBuilder[]
+  files?: AttachmentBuilder[]
+  allowedMentions?: MessageMentionOptions
+}
+
+/**
+ * How replies longer than `threshold` are sent
+ */
+export interface LongReplyOptions {
+  threshold: number
+  format: 'split' | 'embed' | 'file'
+}
+
+// Shown above a reply sent as a .txt attachment
+const FILE_PREVIEW_LENGTH = 300
+
+/**
+ * Turn reply content into the messages to send, in order
+ * Mentions in the content are sanitized for the guild it's sent in
+ * Long replies are sent in the configured format unless given one
+ */
+export const buildReplyPayloads = (
+  text: string,
+  guild: Guild | null = null,
+  longReply: LongReplyOptions = {
+    threshold: config.longReplyThreshold,
+    format: config.longReplyFormat,
+  }
+): ReplyPayload[] => {
+  const content = sanitizeMentions(text, guild)
+  const allowedMentions = getAllowedMentions(guild?.id ?? null)
+
+  return buildContentPayloads(content, longReply).map((payload) => ({
+    ...payload,
+    allowedMentions,
+  }))
+}
+
+const buildContentPayloads = (
+  content: string,
+  { threshold, format }: LongReplyOptions
+): ReplyPayload[] => {
+  if (content.length > threshold) {
+    if (format === 'embed') {
+      const embeds = buildLongReplyEmbeds(
+        splitMessage(content, EMBED_DESCRIPTION_LIMIT)
+      )
+      return embeds.map((embed) => ({ embeds: [embed] }))
+    }
+
+    if (format === 'file') {
+      const [preview] = splitMessage(content, FILE_PREVIEW_LENGTH)
+      return [
+        {
+          content: `${preview} …`,
+          files: [
+            new AttachmentBuilder(Buffer.from(content, 'utf8'), {
+              name: 'response.txt',
+            }),
+          ],
+        },
+      ]
+    }
+  }
+
+  return splitMessage(content).map((chunk) => ({ content: chunk }))
+}
+
+/**
+ * Reply to an interaction with content of any length,
+ * overflowing chunks are sent as follow-ups
+ */
+export async function replyToInteraction(
+  interaction: RepliableInteraction,
+  content: string
+): Promise<void> {
+  const [first, ...rest] = buildReplyPayloads(content, interaction.guild)
+  if (!first) return
+
+  await interaction.reply(first)
+  for (const payload of rest) {
+    await interaction.followUp(payload)
+  }
+}
+
+const toDiscordMessageError = (message: Message, error: unknown) => {
+  const discordError = error as { code?: number; message?: string }
+
+  if (discordError.code === RESTJSONErrorCodes.MissingPermissions) {
+    return new DiscordMessageError({
+      code: discordError.code,
+      message: `Missing permissions to send message in channel ${message.channelId}`,
+      channelId: message.channelId,
+      guildId: message.guildId,
+    })
+  }
+
+  if (discordError.code === RESTJSONErrorCodes.MissingAccess) {
+    return new DiscordMessageError({
+      code: discordError.code,
+      message: `Missing access to channel ${message.channelId}`,
+      channelId: message.channelId,
+      guildId: message.guildId,
+    })
+  }
+
+  if (discordError.code === RESTJSONErrorCodes.UnknownChannel) {
+    return new DiscordMessageError({
+      code: discordError.code,
+      message: `Unknown channel ${message.channelId}`,
+      channelId: message.channelId,
+      guildId: message.guildId,
+    })
+  }
+
+  return new DiscordMessageError({
+    code: discordError.code,
+    message: `Failed to send message reply: ${discordError.message || String(error)}`,
+    channelId: message.channelId,
+    guildId: message.guildId,
+  })
+}
+
+const logDiscordMessageError = (error: DiscordMessageError) =>
+  Effect.gen(function* () {
+    if (error.code === 50013 || error.code === 50001 || error.code === 10003) {
+      yield* Effect.logWarning(error.message)
+    } else {
+      yield* Effect.logError(error.message)
+    }
+    return false
+  })
+
+const isDiscordMessageError = (error: unknown): error is DiscordMessageError =>
+  error instanceof DiscordMessageError
+
+// Discord shows the typing indicator for about 10 seconds
+const TYPING_REFRESH_INTERVAL = Duration.seconds(8)
+
 const make: Effect.Effect<DiscordService> = Effect.gen(function* () {
+  const send = <A>(message: Message, action: () => Promise<A>) =>
+    Effect.tryPromise({
+      try: action,
+      catch: (error) => toDiscordMessageError(message, error),
+    })
+
+  /**
+   * The first payload replies to the message, the rest follow in the channel
+   */
+  const sendPayload = (
+    message: Message,
+    payload: ReplyPayload,
+    index: number
+  ) =>
+    send<Message>(message, () =>
+      index > 0 && message.channel.isSendable()
+        ? message.channel.send(payload)
+        : message.reply(payload)
+    )
+
+  const keepTyping = (message: Message) =>
+    Effect.tryPromise(() =>
+      message.channel.isSendable()
+        ? message.channel.sendTyping()
+        : Promise.resolve()
+    ).pipe(
+      Effect.ignore,
+      Effect.repeat(Schedule.spaced(TYPING_REFRESH_INTERVAL))
+    )
+
   const reply = (
     message: Message,
     content: string
@@ -37,71 +376,133 @@ const make: Effect.Effect<DiscordService> = Effect.gen(function* () {
         `Attempting to reply to message in channel ${message.channelId}`
       )
 
-      return yield* Effect.tryPromise({
-        try: () => message.reply(content),
-        catch: (error) => {
-          const discordError = error as { code?: number; message?: string }
-
-          if (discordError.code === RESTJSONErrorCodes.MissingPermissions) {
-            return new DiscordMessageError({
-              code: discordError.code,
-              message: `Missing permissions to send message in channel ${message.channelId}`,
-              channelId: message.channelId,
-              guildId: message.guildId,
-            })
-          }
-
-          if (discordError.code === RESTJSONErrorCodes.MissingAccess) {
-            return new DiscordMessageError({
-              code: discordError.code,
-              message: `Missing access to channel ${message.channelId}`,
-              channelId: message.channelId,
-              guildId: message.guildId,
-            })
-          }
-
-          if (discordError.code === RESTJSONErrorCodes.UnknownChannel) {
-            return new DiscordMessageError({
-              code: discordError.code,
-              message: `Unknown channel ${message.channelId}`,
-              channelId: message.channelId,
-              guildId: message.guildId,
-            })
-          }
+      const payloads = buildReplyPayloads(content, message.guild)
+      if (payloads.length === 0) {
+        yield* Effect.logWarning(
+          `Refusing to send an empty reply in channel ${message.channelId}`
+        )
+        return false
+      }
 
-          return new DiscordMessageError({
-            code: discordError.code,
-            message: `Failed to send message reply: ${discordError.message || String(error)}`,
-            channelId: message.channelId,
-            guildId: message.guildId,
-          })
-        },
-      }).pipe(
+      return yield* Effect.forEach(payloads, (payload, index) =>
+        sendPayload(message, payload, index)
+      ).pipe(
         Effect.tap(() =>
           Effect.logDebug(
             `Successfully replied to message in channel ${message.channelId}`
           )
         ),
         Effect.map(() => true),
-        Effect.catchAll((error) =>
-          Effect.gen(function* () {
-            if (
-              error.code === 50013 ||
-              error.code === 50001 ||
-              error.code === 10003
-            ) {
-              yield* Effect.logWarning(error.message)
-            } else {
-              yield* Effect.logError(error.message)
-            }
-            return false
-          })
-        )
+        Effect.catchAll(logDiscordMessageError)
       )
     })
 
+  const streamReply = <E, R>(
+    message: Message,
+    content: Stream.Stream<string, E, R>,
+    { check }: StreamReplyOptions<E, R> = {}
+  ): Effect.Effect<boolean, E, R> =>
+    Effect.gen(function* () {
+      // Sent messages with the chunk they currently show
+      const sent = yield* Ref.make<{ message: Message; content: string }[]>([])
+      const lastText = yield* Ref.make('')
+      const typing = yield* keepTyping(message).pipe(Effect.fork)
+      const allowedMentions = getAllowedMentions(message.guildId)
+
+      const render = (text: string) =>
+        Effect.gen(function* () {
+          yield* Ref.set(lastText, text)
+          const chunks = splitMessage(sanitizeMentions(text, message.guild))
+
+          for (const [index, chunk] of chunks.entries()) {
+            const current = (yield* Ref.get(sent))[index]
+
+            if (!current) {
+              const posted = yield* sendPayload(
+                message,
+                { content: chunk, allowedMentions },
+                index
+              )
+              yield* Fiber.interrupt(typing)
+              yield* Ref.update(sent, (messages) => [
+                ...messages,
+                { message: posted, content: chunk },
+              ])
+            } else if (current.content !== chunk) {
+              yield* send(message, () =>
+                current.message.edit({ content: chunk, allowedMentions })
+              )
+              yield* Ref.update(sent, (messages) =>
+                messages.map((entry, i) =>
+                  i === index ? { ...entry, content: chunk } : entry
+                )
+              )
+            }
+          }
+
+          // The text can get shorter, e.g. when a new message starts after
+          // a tool call, follow-ups past the last chunk would keep stale text
+          const surplus = (yield* Ref.get(sent)).slice(chunks.length)
+          if (surplus.length > 0) {
+            yield* Effect.forEach(surplus, ({ message: posted }) =>
+              send(message, () => posted.delete()).pipe(Effect.ignore)
+            )
+            yield* Ref.update(sent, (messages) =>
+              messages.slice(0, chunks.length)
+            )
+          }
+        })
+
+      const deleteSent = Ref.get(sent).pipe(
+        Effect.flatMap((messages) =>
+          Effect.forEach(messages, ({ message: posted }) =>
+            send(message, () => posted.delete()).pipe(Effect.ignore)
+          )
+        ),
+        Effect.zipRight(Ref.set(sent, []))
+      )
+
+      yield* content.pipe(
+        // Only the latest cumulative text of each interval is rendered
+        Stream.groupedWithin(
+          Number.MAX_SAFE_INTEGER,
+          Duration.millis(config.streamEditIntervalMs)
+        ),
+        Stream.filterMap(Chunk.last),
+        Stream.tap((text) => (check ? check(text) : Effect.void)),
+        Stream.runForEach(render),
+        Effect.tapError((error) =>
+          isDiscordMessageError(error) ? Effect.void : deleteSent
+        ),
+        Effect.ensuring(Fiber.interrupt(typing))
+      )
+
+      const text = yield* Ref.get(lastText)
+      if (text.length === 0) {
+        yield* Effect.logWarning(
+          `Streamed reply in channel ${message.channelId} had no content`
+        )
+        return false
+      }
+
+      // Swap very long replies for the configured format once complete
+      if (
+        text.length > config.longReplyThreshold &&
+        config.longReplyFormat !== 'split'
+      ) {
+        yield* deleteSent
+        yield* Effect.forEach(
+          buildReplyPayloads(text, message.guild),
+          (payload, index) => sendPayload(message, payload, index)
+        )
+      }
+
+      return true
+    }).pipe(Effect.catchIf(isDiscordMessageError, logDiscordMessageError))
+
   return DiscordService.of({
     reply,
+    streamReply,
   })
 })
 
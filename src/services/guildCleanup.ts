@@ -1,7 +1,8 @@
 import type { Client } from 'discord.js'
 import { Duration, Effect, Fiber, Schedule, pipe } from 'effect'
 import { MainLive } from '.'
-import { ApiError, ApiService } from '../services/api'
+import { ApiService } from '../services/api'
+import { ConversationStore } from './llm'
 
 // Define error types for better error handling
 export class GuildCleanupError extends Error {
@@ -57,6 +58,11 @@ const deleteOrphanedGuild = (guildId: string) =>
     const apiService = yield* ApiService
     const effectApi = apiService.effectApi
     const deleteResponse = yield* effectApi.guilds.deleteGuild(guildId)
+
+    const conversationStore = yield* ConversationStore
+    yield* conversationStore
+      .deleteGuild(guildId)
+      .pipe(Effect.catchAll((error) => Effect.logWarning(error.message)))
     yield* Effect.logInfo(`Successfully deleted orphaned guild: ${guildId}`)
 
     return guildId
@@ -131,10 +137,7 @@ export const cleanupOrphanedGuilds = (client: Client) =>
       if (result._tag === 'Right') {
         successful.push(result.right)
       } else {
-        const error = result.left
-        if (error instanceof ApiError) {
-          failed.push(error.message)
-        }
+        failed.push(result.left.message)
       }
     }
 
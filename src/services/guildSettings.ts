@@ -0,0 +1,28 @@
+/**
+ * Service for per-guild behaviour settings
+ */
+
+import { config } from './config'
+
+export interface GuildSettings {
+  /**
+   * Whether a direct reply to one of Teto's messages counts as addressing her,
+   * without requiring an @mention
+   */
+  replyTrigger: boolean
+  /**
+   * Whether Teto's replies may ping any user instead of only the replied-to one
+   * @everyone, @here and role pings are never allowed
+   */
+  allowUserMentions: boolean
+}
+
+/**
+ * Get the effective settings of a guild
+ */
+export function getGuildSettings(guildId: string): GuildSettings {
+  return {
+    replyTrigger: config.replyTriggerGuildIds.includes(guildId),
+    allowUserMentions: config.userMentionGuildIds.includes(guildId),
+  }
+}
@@ -1,36 +1,68 @@
 import { Layer } from 'effect'
-import { ApiServiceLive } from './api'
+import { ApiServiceLive, CircuitBreakerLive } from './api'
 import { ChannelServiceLive } from './channel'
 import { ChannelRateLimiterLive } from './channelRateLimiter'
 import { ClientLive } from './client'
 import { DiscordServiceLive } from './discord'
 import {
+  ConversationStoreLive,
+  type LLMConversationModelContext,
   LLMConversationModelLive,
   LLMLive,
+  type LLMSummarizationModelContext,
   LLMSummarizationModelLive,
+  type LLMVisionModelContext,
   LLMVisionModelLive,
 } from './llm'
-import { MessagesServiceLive } from './messages'
+import { MessagesServiceLive, OutputModerationLive } from './messages'
 
 /**
  *  Exporting Layers in index.ts of Services
  */
 
-export const LLMLayer = LLMLive.pipe(
-  Layer.provide(LLMSummarizationModelLive),
-  Layer.provide(LLMConversationModelLive),
-  Layer.provide(LLMVisionModelLive)
+const ConversationModelLayer = LLMConversationModelLive.pipe(
+  Layer.provide(ApiServiceLive)
 )
 
+export const LLMModelsLive = Layer.mergeAll(
+  LLMSummarizationModelLive,
+  ConversationModelLayer,
+  LLMVisionModelLive
+)
+
+/**
+ * The graph with the given models, e.g. makeScriptedModelsLive in tests
+ */
+export const makeLLMLayer = <E, R>(
+  models: Layer.Layer<
+    | LLMConversationModelContext
+    | LLMSummarizationModelContext
+    | LLMVisionModelContext,
+    E,
+    R
+  >
+) =>
+  LLMLive.pipe(
+    Layer.provide(models),
+    Layer.provide(ApiServiceLive),
+    Layer.provide(ConversationStoreLive)
+  )
+
+export const LLMLayer = makeLLMLayer(LLMModelsLive)
+
 export const MainLive = Layer.mergeAll(
   ClientLive,
   LLMLayer,
-  LLMConversationModelLive,
+  ConversationModelLayer,
+  LLMVisionModelLive,
+  ConversationStoreLive,
   ChannelRateLimiterLive,
   ApiServiceLive,
+  CircuitBreakerLive,
   ChannelServiceLive,
   DiscordServiceLive,
-  MessagesServiceLive
+  MessagesServiceLive,
+  OutputModerationLive
 )
 
 // Re-export service components
@@ -1,5 +1,16 @@
-import type { Attachment } from 'discord.js'
-import { Effect } from 'effect'
+import {
+  type Attachment,
+  type Message,
+  type Sticker,
+  StickerFormatType,
+} from 'discord.js'
+import { Data, Effect, Option } from 'effect'
+import { config } from '../config'
+import {
+  type ImageSkipReason,
+  ImageSkippedError,
+  preprocessImage,
+} from './image'
 
 // Image formats supported by most vision models
 const SUPPORTED_IMAGE_FORMATS = [
@@ -10,45 +21,443 @@ const SUPPORTED_IMAGE_FORMATS = [
   'image/webp',
 ]
 
-export const isImageAttachment = (attachment: Attachment): boolean => {
-  return SUPPORTED_IMAGE_FORMATS.includes(attachment.contentType || '')
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
 }
 
-export const attachmentToBase64 = (attachment: Attachment) =>
+// Text-like files are recognized by type, or by extension since
+// Discord often reports source files as application/octet-stream
+const TEXT_CONTENT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'application/javascript',
+  'application/typescript',
+  'application/x-sh',
+  'application/sql',
+]
+
+const TEXT_EXTENSIONS = new Set(
+  [
+    'txt md markdown log csv tsv json jsonc yaml yml toml ini cfg conf env',
+    'xml html css scss js jsx mjs cjs ts tsx py rb go rs java kt swift c h',
+    'cpp hpp cs php lua sh bash zsh ps1 sql diff patch vue svelte dart r ex',
+    'exs hs zig',
+  ]
+    .join(' ')
+    .split(' ')
+)
+
+// Rough estimate used for the text attachment token budget
+const CHARS_PER_TOKEN = 4
+
+export type AttachmentKind = 'image' | 'text' | 'unsupported'
+
+const getExtension = (name: string) =>
+  name.includes('.') ? (name.split('.').pop()?.toLowerCase() ?? '') : ''
+
+/**
+ * Decide how an attachment can be given to the model
+ */
+export const classifyAttachment = (attachment: Attachment): AttachmentKind => {
+  const contentType = attachment.contentType?.split(';')[0]?.trim() ?? ''
+
+  if (contentType.startsWith('image/')) return 'image'
+  if (
+    contentType.startsWith('text/') ||
+    TEXT_CONTENT_TYPES.includes(contentType) ||
+    TEXT_EXTENSIONS.has(getExtension(attachment.name))
+  ) {
+    return 'text'
+  }
+  return 'unsupported'
+}
+
+/**
+ * An image found on a message, from an attachment, an embed or a sticker
+ */
+export interface ImageSource {
+  url: string
+  // Unknown for embeds until the image is fetched
+  contentType: string | null
+  // In bytes, unknown for embeds and stickers
+  size: number | null
+}
+
+/**
+ * Images ready for the vision model, and how many were left out and why
+ */
+export interface ProcessedImages {
+  images: ImageContent[]
+  skipped: Record<ImageSkipReason, number>
+}
+
+export type ImageContent = Effect.Effect.Success<
+  ReturnType<typeof imageToBase64>
+>
+
+const isSupportedFormat = (contentType: string | null) =>
+  SUPPORTED_IMAGE_FORMATS.includes(contentType?.split(';')[0]?.trim() ?? '')
+
+const contentTypeFromUrl = (url: string) => {
+  if (!URL.canParse(url)) return null
+  const extension = new URL(url).pathname.split('.').pop()?.toLowerCase()
+  return extension ? (EXTENSION_CONTENT_TYPES[extension] ?? null) : null
+}
+
+export class AttachmentDownloadError extends Data.TaggedError(
+  'AttachmentDownloadError'
+)<{
+  url: string
+  message: string
+  cause?: unknown
+}> {}
+
+/**
+ * Download an attachment, network and HTTP errors fail with
+ * AttachmentDownloadError instead of dying
+ */
+const download = (url: string) =>
   Effect.gen(function* () {
-    if (!isImageAttachment(attachment)) {
+    const response = yield* Effect.tryPromise({
+      try: () => fetch(url),
+      catch: (cause) =>
+        new AttachmentDownloadError({
+          url,
+          message: `Failed to fetch ${url}: ${cause}`,
+          cause,
+        }),
+    })
+
+    if (!response.ok) {
       return yield* Effect.fail(
-        new Error(`Unsupported image format: ${attachment.contentType}`)
+        new AttachmentDownloadError({
+          url,
+          message: `Failed to fetch ${url}: ${response.status} ${response.statusText}`,
+        })
       )
     }
 
-    const response = yield* Effect.promise(() => fetch(attachment.url))
+    return response
+  })
 
-    if (!response.ok) {
-      return yield* Effect.fail(
-        new Error(`Failed to fetch image: ${response.statusText}`)
-      )
+/**
+ * Read a response body, none once it grows past `maxBytes`
+ * The rest isn't downloaded, so a huge or endless body can't exhaust memory
+ */
+const readBody = (url: string, response: Response, maxBytes: number) =>
+  Effect.tryPromise({
+    try: async () => {
+      const reader = response.body?.getReader()
+      if (!reader) return Option.some(Buffer.alloc(0))
+
+      const chunks: Uint8Array[] = []
+      let bytes = 0
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) return Option.some(Buffer.concat(chunks, bytes))
+
+        bytes += value.byteLength
+        if (bytes > maxBytes) {
+          await reader.cancel()
+          return Option.none()
+        }
+        chunks.push(value)
+      }
+    },
+    catch: (cause) =>
+      new AttachmentDownloadError({
+        url,
+        message: `Failed to read ${url}: ${cause}`,
+        cause,
+      }),
+  })
+
+const attachmentToImageSource = (attachment: Attachment): ImageSource => ({
+  url: attachment.url,
+  contentType: attachment.contentType,
+  size: attachment.size,
+})
+
+const stickerToImageSource = (sticker: Sticker): ImageSource => ({
+  url: sticker.url,
+  // Lottie stickers are JSON animations, not images
+  contentType:
+    sticker.format === StickerFormatType.Lottie
+      ? 'application/json'
+      : contentTypeFromUrl(sticker.url),
+  size: null,
+})
+
+/**
+ * Collect the images of a message: image attachments, embed images
+ * (e.g. a pasted image link) and stickers, without duplicates
+ */
+export const getMessageImageSources = (message: Message): ImageSource[] => {
+  const attachments = [...message.attachments.values()]
+    .filter((attachment) => classifyAttachment(attachment) === 'image')
+    .map(attachmentToImageSource)
+
+  const embeds = message.embeds.flatMap((embed) =>
+    [embed.image, embed.thumbnail]
+      .filter((image) => image !== null)
+      .map((image) => ({
+        url: image.proxyURL ?? image.url,
+        contentType: null,
+        size: null,
+      }))
+  )
+
+  const stickers = [...message.stickers.values()].map(stickerToImageSource)
+
+  const sources = [...attachments, ...embeds, ...stickers]
+  return sources.filter(
+    (source, index) => sources.findIndex((s) => s.url === source.url) === index
+  )
+}
+
+export const imageToBase64 = (source: ImageSource) =>
+  Effect.gen(function* () {
+    const response = yield* download(source.url)
+
+    // Embed images only tell their format once fetched
+    const contentType =
+      response.headers.get('content-type') ?? contentTypeFromUrl(source.url)
+    if (!isSupportedFormat(contentType)) {
+      return yield* Effect.fail(new ImageSkippedError({ reason: 'format' }))
     }
 
-    const arrayBuffer = yield* Effect.promise(() => response.arrayBuffer())
-    const base64 = Buffer.from(arrayBuffer).toString('base64')
+    // Don't download what will be rejected anyway
+    const contentLength = Number(response.headers.get('content-length'))
+    if (contentLength > config.maxImageBytes) {
+      yield* Effect.tryPromise(
+        () => response.body?.cancel() ?? Promise.resolve()
+      ).pipe(Effect.ignore)
+      return yield* Effect.fail(new ImageSkippedError({ reason: 'size' }))
+    }
+
+    const body = yield* readBody(source.url, response, config.maxImageBytes)
+    if (Option.isNone(body)) {
+      return yield* Effect.fail(new ImageSkippedError({ reason: 'size' }))
+    }
+    const image = yield* preprocessImage(body.value)
+    const base64 = image.data.toString('base64')
 
     return {
       type: 'image_url' as const,
       image_url: {
-        url: `data:${attachment.contentType};base64,${base64}`,
+        url: `data:${image.contentType};base64,${base64}`,
       },
     }
   })
 
-export const processImageAttachments = (attachments: readonly Attachment[]) =>
+/**
+ * Convert images for the vision model, at most `maxImagesPerMessage`.
+ * Images over the cap, too large or in an unsupported format are skipped
+ * and counted; images that fail to download are dropped.
+ */
+export const processImages = (sources: readonly ImageSource[]) =>
   Effect.gen(function* () {
-    const imageAttachments = attachments.filter(isImageAttachment)
-    if (imageAttachments.length === 0) return []
+    const skipped: Record<ImageSkipReason, number> = {
+      count: 0,
+      size: 0,
+      pixels: 0,
+      format: 0,
+    }
+
+    // Known formats and sizes are checked before downloading anything
+    const candidates = sources.filter((source) => {
+      if (source.contentType && !isSupportedFormat(source.contentType)) {
+        skipped.format++
+        return false
+      }
+      if (source.size !== null && source.size > config.maxImageBytes) {
+        skipped.size++
+        return false
+      }
+      return true
+    })
+    skipped.count = Math.max(0, candidates.length - config.maxImagesPerMessage)
+
+    const results = yield* Effect.forEach(
+      candidates.slice(0, config.maxImagesPerMessage),
+      (source) => imageToBase64(source).pipe(Effect.either),
+      { concurrency: 'unbounded' }
+    )
+
+    const images: ImageContent[] = []
+    for (const result of results) {
+      if (result._tag === 'Right') {
+        images.push(result.right)
+      } else if (result.left instanceof ImageSkippedError) {
+        skipped[result.left.reason]++
+      } else {
+        yield* Effect.logWarning(`Dropping image: ${result.left.message}`)
+      }
+    }
+
+    return { images, skipped } satisfies ProcessedImages
+  })
+
+// =====================
+// TEXT ATTACHMENTS
+// =====================
+
+export type FileSkipReason = 'size' | 'encoding' | 'download'
+
+/**
+ * Text files ready to be inlined into the human turn, and how many were
+ * left out and why
+ */
+export interface ProcessedTextFiles {
+  files: string[]
+  skipped: Record<FileSkipReason, number>
+}
+
+class FileSkippedError extends Data.TaggedError('FileSkippedError')<{
+  reason: FileSkipReason
+}> {}
+
+const readTextAttachment = (attachment: Attachment) =>
+  Effect.gen(function* () {
+    if (attachment.size > config.maxTextAttachmentBytes) {
+      return yield* Effect.fail(new FileSkippedError({ reason: 'size' }))
+    }
+
+    const body = yield* download(attachment.url).pipe(
+      Effect.flatMap((response) =>
+        readBody(attachment.url, response, config.maxTextAttachmentBytes)
+      ),
+      Effect.tapError((error) => Effect.logWarning(error.message)),
+      Effect.mapError(() => new FileSkippedError({ reason: 'download' }))
+    )
+    if (Option.isNone(body)) {
+      return yield* Effect.fail(new FileSkippedError({ reason: 'size' }))
+    }
+    const bytes = body.value
+
+    // Binary files in disguise fail to decode or contain NUL bytes
+    const text = yield* Effect.try({
+      try: () => new TextDecoder('utf-8', { fatal: true }).decode(bytes),
+      catch: () => new FileSkippedError({ reason: 'encoding' }),
+    })
+    if (text.includes('\0')) {
+      return yield* Effect.fail(new FileSkippedError({ reason: 'encoding' }))
+    }
+
+    return text
+  })
+
+/**
+ * Render a file the way it is inlined into the human turn
+ */
+const formatTextFile = (name: string, text: string, truncated: boolean) => {
+  // A longer fence than any backtick run keeps the file from closing it early
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  )
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  const note = truncated ? '\n(truncated)' : ''
+  return `File: ${name}\n${fence}${getExtension(name)}\n${text}\n${fence}${note}`
+}
+
+/**
+ * Read text attachments, truncated to share `textAttachmentTokenBudget`.
+ * Files that are too large, not valid UTF-8 or fail to download
+ * are skipped and counted.
+ */
+export const processTextAttachments = (attachments: readonly Attachment[]) =>
+  Effect.gen(function* () {
+    const skipped: Record<FileSkipReason, number> = {
+      size: 0,
+      encoding: 0,
+      download: 0,
+    }
+    const files: string[] = []
+    let budget = config.textAttachmentTokenBudget * CHARS_PER_TOKEN
+
+    const results = yield* Effect.forEach(
+      attachments.filter(
+        (attachment) => classifyAttachment(attachment) === 'text'
+      ),
+      (attachment) =>
+        readTextAttachment(attachment).pipe(
+          Effect.map((text) => ({ name: attachment.name, text })),
+          Effect.either
+        ),
+      { concurrency: 'unbounded' }
+    )
+
+    for (const result of results) {
+      if (result._tag === 'Left') {
+        skipped[result.left.reason]++
+        continue
+      }
 
-    const imageProcessingEffects = imageAttachments.map(attachmentToBase64)
+      const { name, text } = result.right
+      if (budget <= 0) {
+        skipped.size++
+        continue
+      }
+
+      const truncated = text.length > budget
+      const kept = truncated ? text.slice(0, budget) : text
+      budget -= kept.length
+      files.push(formatTextFile(name, kept.trimEnd(), truncated))
+    }
 
-    return yield* Effect.all(imageProcessingEffects, {
-      concurrency: 'unbounded',
-    }).pipe(Effect.catchAll(() => Effect.succeed([])))
+    return { files, skipped } satisfies ProcessedTextFiles
   })
+
+// =====================
+// NOTICES
+// =====================
+
+// At most one decimal, e.g. 8 or 0.5
+const formatAmount = (value: number) => String(Number(value.toFixed(1)))
+
+const IMAGE_SKIP_LABELS: Record<ImageSkipReason, string> = {
+  count: `over the limit of ${config.maxImagesPerMessage} per message`,
+  size: `larger than ${formatAmount(config.maxImageBytes / (1024 * 1024))} MB`,
+  pixels: `larger than ${formatAmount(config.maxImagePixels / 1_000_000)} megapixels`,
+  format: 'in an unsupported format',
+}
+
+const FILE_SKIP_LABELS: Record<FileSkipReason, string> = {
+  size: 'too large to read',
+  encoding: 'not encoded as UTF-8 text',
+  download: "that couldn't be downloaded",
+}
+
+const formatSkipped = <Reason extends string>(
+  noun: string,
+  skipped: Record<Reason, number>,
+  labels: Record<Reason, string>
+) =>
+  (Object.keys(skipped) as Reason[])
+    .filter((reason) => skipped[reason] > 0)
+    .map(
+      (reason) =>
+        `${skipped[reason]} ${noun}${skipped[reason] === 1 ? '' : 's'} ${labels[reason]}`
+    )
+
+/**
+ * Tell the user which images and files Teto couldn't look at, if any
+ */
+export const formatSkippedAttachmentsNotice = (
+  skippedImages: ProcessedImages['skipped'],
+  skippedFiles: ProcessedTextFiles['skipped']
+) => {
+  const parts = [
+    ...formatSkipped('image', skippedImages, IMAGE_SKIP_LABELS),
+    ...formatSkipped('file', skippedFiles, FILE_SKIP_LABELS),
+  ]
+
+  return parts.length > 0 ? `-# I skipped ${parts.join(', ')}.` : null
+}
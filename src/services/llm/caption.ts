@@ -0,0 +1,132 @@
+import {
+  type BaseMessage,
+  HumanMessage,
+  type MessageContentComplex,
+} from '@langchain/core/messages'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import { Effect } from 'effect'
+import type { LLMContext } from '.'
+import { ConversationStore } from './conversationStore'
+import { LLMVisionModelContext } from './model'
+import { buildImageCaptionMessage } from './prompt'
+
+/**
+ * Images are only kept in the thread for the turn that looks at them,
+ * afterwards they are replaced by a short caption so checkpoints stay small
+ */
+
+const isImagePart = (part: MessageContentComplex) => part.type === 'image_url'
+
+/**
+ * Get the image parts of a human turn
+ */
+export const getImageParts = (message: BaseMessage) =>
+  message.getType() === 'human' && Array.isArray(message.content)
+    ? message.content.filter(isImagePart)
+    : []
+
+export const hasImageParts = (message: BaseMessage) =>
+  getImageParts(message).length > 0
+
+/**
+ * Text stored in place of the images of a turn
+ */
+export const formatImageCaption = (count: number, caption?: string) => {
+  const images = count === 1 ? 'an image' : `${count} images`
+  return caption
+    ? `[Shared ${images}: ${caption}]`
+    : `[Shared ${images}, no longer available]`
+}
+
+/**
+ * Replace the images of a human turn with their caption.
+ * The id and speaker are kept, so the stored turn is updated in place.
+ */
+export const replaceImagesWithCaption = (
+  message: BaseMessage,
+  caption?: string
+) => {
+  const parts = Array.isArray(message.content) ? message.content : []
+  const text = parts
+    .filter((part) => !isImagePart(part))
+    .map((part) => ('text' in part ? String(part.text) : ''))
+    .filter((part) => part.length > 0)
+
+  return new HumanMessage({
+    id: message.id,
+    content: [
+      ...text,
+      formatImageCaption(getImageParts(message).length, caption),
+    ].join('\n'),
+    additional_kwargs: message.additional_kwargs,
+  })
+}
+
+/**
+ * Describe the images of a human turn, none when the vision model fails
+ */
+const captionImages = (message: BaseMessage) =>
+  Effect.gen(function* () {
+    const visionModel = yield* LLMVisionModelContext
+    const response = yield* Effect.tryPromise(() =>
+      visionModel.invoke([
+        new HumanMessage({
+          content: [
+            ...getImageParts(message),
+            { type: 'text', text: buildImageCaptionMessage() },
+          ],
+        }),
+      ])
+    )
+
+    return typeof response.content === 'string'
+      ? response.content.trim() || undefined
+      : undefined
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning(`Failed to caption images: ${error.message}`).pipe(
+        Effect.as(undefined)
+      )
+    )
+  )
+
+/**
+ * Replace the images of an answered turn with a caption,
+ * then compact the thread so earlier checkpoints don't keep the base64 data
+ * Other turns are left alone, they were captioned after their own reply
+ * Runs after the reply was sent, under the thread's lock, never fails
+ */
+export const captionThreadImages = (
+  llm: LLMContext['Type'],
+  config: RunnableConfig,
+  messageId: string
+) =>
+  Effect.gen(function* () {
+    const conversationStore = yield* ConversationStore
+
+    const state = yield* Effect.tryPromise(() => llm.getState(config))
+    const messages: BaseMessage[] = state.values.messages ?? []
+    const answered = messages.find(
+      (message) => message.id === messageId && hasImageParts(message)
+    )
+    // Already summarized away, or without images
+    if (!answered) return
+
+    const caption = yield* captionImages(answered)
+
+    // As the summarizer, whose only edge is END, so no node is left pending
+    yield* Effect.tryPromise(() =>
+      llm.updateState(
+        config,
+        { messages: [replaceImagesWithCaption(answered, caption)] },
+        'summarize_conversation'
+      )
+    )
+
+    const threadId = config.configurable?.thread_id
+    if (threadId) yield* conversationStore.compactThread(threadId)
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning(`Failed to caption images in thread: ${error.message}`)
+    )
+  )
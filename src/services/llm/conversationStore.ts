@@ -0,0 +1,481 @@
+import type { BaseMessage } from '@langchain/core/messages'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import {
+  type BaseCheckpointSaver,
+  type Checkpoint,
+  type CheckpointMetadata,
+  MemorySaver,
+} from '@langchain/langgraph'
+import { PostgresSaver } from '@langchain/langgraph-checkpoint-postgres'
+import { Context, Data, Effect, Layer, Option } from 'effect'
+import pg from 'pg'
+import { appConfig } from '../config'
+
+export class ConversationStoreError extends Data.TaggedError(
+  'ConversationStoreError'
+)<{
+  message: string
+  cause?: unknown
+}> {}
+
+export interface ThreadInfo {
+  threadId: string
+  // Guild the thread was last written from, missing for DMs
+  guildId?: string
+  lastActivity: Date
+  // Approximate storage taken by its checkpoints
+  sizeBytes: number
+}
+
+export interface ThreadSnapshot {
+  messages: BaseMessage[]
+  summary: string
+  lastActivity: Date
+}
+
+/**
+ * Conversation Store - owns the checkpointer holding the conversation threads
+ * Threads are keyed by channel id
+ */
+export class ConversationStore extends Context.Tag('ConversationStore')<
+  ConversationStore,
+  {
+    checkpointer: BaseCheckpointSaver
+    /**
+     * Forget everything about a thread, succeeds with whether it existed
+     */
+    resetThread: (
+      threadId: string
+    ) => Effect.Effect<boolean, ConversationStoreError>
+    listThreads: Effect.Effect<ThreadInfo[], ConversationStoreError>
+    readThread: (
+      threadId: string
+    ) => Effect.Effect<Option.Option<ThreadSnapshot>, ConversationStoreError>
+    /**
+     * Run an effect while no other effect holds the thread's lock,
+     * e.g. a graph run and the captioning that follows it
+     */
+    withThreadLock: <A, E, R>(
+      threadId: string,
+      effect: Effect.Effect<A, E, R>
+    ) => Effect.Effect<A, E, R>
+    /**
+     * Drop every checkpoint of a thread but the latest,
+     * e.g. so earlier ones don't keep data that was replaced
+     */
+    compactThread: (
+      threadId: string
+    ) => Effect.Effect<void, ConversationStoreError>
+    /**
+     * Delete the given threads, succeeds with how many existed
+     */
+    deleteThreads: (
+      threadIds: string[]
+    ) => Effect.Effect<number, ConversationStoreError>
+    deleteChannel: (
+      channelId: string
+    ) => Effect.Effect<boolean, ConversationStoreError>
+    /**
+     * Delete every thread of a guild, succeeds with how many were deleted
+     */
+    deleteGuild: (
+      guildId: string
+    ) => Effect.Effect<number, ConversationStoreError>
+  }
+>() {}
+
+// What differs between the checkpointers
+interface StoreBackend {
+  checkpointer: BaseCheckpointSaver
+  listThreads: () => Promise<ThreadInfo[]>
+  // Resolves with the number of threads that existed
+  deleteThreads: (threadIds: string[]) => Promise<number>
+  compactThread: (threadId: string) => Promise<void>
+  // Threads last written from the guild
+  listGuildThreads: (guildId: string) => Promise<string[]>
+}
+
+type GuildMetadata = CheckpointMetadata<{ guild_id?: string }>
+
+// The savers only keep the checkpoint's own metadata, so the guild
+// from the run's metadata is copied into it to find a guild's threads later
+const withGuild = (
+  config: RunnableConfig,
+  metadata: CheckpointMetadata
+): GuildMetadata => ({
+  ...metadata,
+  guild_id: config.metadata?.guild_id as string | undefined,
+})
+
+class GuildMemorySaver extends MemorySaver {
+  override put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ) {
+    return super.put(config, checkpoint, withGuild(config, metadata))
+  }
+}
+
+class GuildPostgresSaver extends PostgresSaver {
+  override put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+    newVersions: Parameters<PostgresSaver['put']>[3]
+  ) {
+    return super.put(
+      config,
+      checkpoint,
+      withGuild(config, metadata),
+      newVersions
+    )
+  }
+}
+
+const toThreadInfo = (
+  threadId: string,
+  timestamp: string,
+  guildId: unknown,
+  sizeBytes: number
+): ThreadInfo => ({
+  threadId,
+  guildId: typeof guildId === 'string' ? guildId : undefined,
+  lastActivity: new Date(timestamp),
+  sizeBytes,
+})
+
+const makeMemoryBackend = (): StoreBackend => {
+  const checkpointer = new GuildMemorySaver()
+
+  return {
+    checkpointer,
+    listThreads: async () => {
+      // Serialized checkpoints, metadata and pending writes
+      const sizes = new Map<string, number>()
+      const addSize = (threadId: string, bytes: number) =>
+        sizes.set(threadId, (sizes.get(threadId) ?? 0) + bytes)
+
+      for (const [threadId, namespaces] of Object.entries(
+        checkpointer.storage
+      )) {
+        for (const checkpoints of Object.values(namespaces)) {
+          for (const [checkpoint, metadata] of Object.values(checkpoints)) {
+            addSize(threadId, checkpoint.byteLength + metadata.byteLength)
+          }
+        }
+      }
+      for (const [key, writes] of Object.entries(checkpointer.writes)) {
+        const [threadId] = JSON.parse(key) as [string]
+        for (const [, , value] of Object.values(writes)) {
+          addSize(threadId, value.byteLength)
+        }
+      }
+
+      const threads: ThreadInfo[] = []
+      for (const threadId of Object.keys(checkpointer.storage)) {
+        const tuple = await checkpointer.getTuple({
+          configurable: { thread_id: threadId },
+        })
+        if (tuple) {
+          threads.push(
+            toThreadInfo(
+              threadId,
+              tuple.checkpoint.ts,
+              (tuple.metadata as GuildMetadata | undefined)?.guild_id,
+              sizes.get(threadId) ?? 0
+            )
+          )
+        }
+      }
+      return threads
+    },
+    deleteThreads: async (threadIds) => {
+      let deleted = 0
+      for (const threadId of threadIds) {
+        if (checkpointer.storage[threadId]) deleted++
+        delete checkpointer.storage[threadId]
+      }
+      // Pending writes are keyed by [thread_id, checkpoint_ns, checkpoint_id]
+      for (const key of Object.keys(checkpointer.writes)) {
+        const [threadId] = JSON.parse(key) as [string]
+        if (threadIds.includes(threadId)) delete checkpointer.writes[key]
+      }
+      return deleted
+    },
+    compactThread: async (threadId) => {
+      const kept = new Set<string>()
+      for (const checkpoints of Object.values(
+        checkpointer.storage[threadId] ?? {}
+      )) {
+        // Checkpoint ids sort by creation
+        const [latest] = Object.keys(checkpoints).sort().reverse()
+        for (const checkpointId of Object.keys(checkpoints)) {
+          if (checkpointId !== latest) delete checkpoints[checkpointId]
+        }
+        if (latest) kept.add(latest)
+      }
+      for (const key of Object.keys(checkpointer.writes)) {
+        const [id, , checkpointId] = JSON.parse(key) as [string, string, string]
+        if (id === threadId && !kept.has(checkpointId)) {
+          delete checkpointer.writes[key]
+        }
+      }
+    },
+    listGuildThreads: async (guildId) => {
+      const threadIds: string[] = []
+      for (const threadId of Object.keys(checkpointer.storage)) {
+        const tuple = await checkpointer.getTuple({
+          configurable: { thread_id: threadId },
+        })
+        const metadata = tuple?.metadata as GuildMetadata | undefined
+        if (metadata?.guild_id === guildId) threadIds.push(threadId)
+      }
+      return threadIds
+    },
+  }
+}
+
+const makePostgresBackend = (
+  pool: pg.Pool,
+  checkpointer: PostgresSaver
+): StoreBackend => ({
+  checkpointer,
+  listThreads: async () => {
+    const { rows } = await pool.query<{
+      thread_id: string
+      ts: string
+      guild_id: string | null
+      size_bytes: string
+    }>(
+      `WITH latest AS (
+         SELECT DISTINCT ON (thread_id)
+           thread_id, checkpoint->>'ts' AS ts, metadata->>'guild_id' AS guild_id
+         FROM checkpoints
+         WHERE checkpoint_ns = ''
+         ORDER BY thread_id, checkpoint_id DESC
+       ), sizes AS (
+         SELECT thread_id, pg_column_size(c.*) AS bytes FROM checkpoints c
+         UNION ALL
+         SELECT thread_id, pg_column_size(b.*) FROM checkpoint_blobs b
+         UNION ALL
+         SELECT thread_id, pg_column_size(w.*) FROM checkpoint_writes w
+       )
+       SELECT latest.*, coalesce(sum(sizes.bytes), 0) AS size_bytes
+       FROM latest LEFT JOIN sizes USING (thread_id)
+       GROUP BY latest.thread_id, latest.ts, latest.guild_id`
+    )
+    return rows.map((row) =>
+      toThreadInfo(row.thread_id, row.ts, row.guild_id, Number(row.size_bytes))
+    )
+  },
+  deleteThreads: async (threadIds) => {
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+      const { rows } = await client.query<{ count: number }>(
+        `WITH deleted AS (
+           DELETE FROM checkpoints WHERE thread_id = ANY($1) RETURNING thread_id
+         )
+         SELECT count(DISTINCT thread_id)::int AS count FROM deleted`,
+        [threadIds]
+      )
+      await client.query(
+        'DELETE FROM checkpoint_writes WHERE thread_id = ANY($1)',
+        [threadIds]
+      )
+      await client.query(
+        'DELETE FROM checkpoint_blobs WHERE thread_id = ANY($1)',
+        [threadIds]
+      )
+      await client.query('COMMIT')
+      return rows[0]?.count ?? 0
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  },
+  compactThread: async (threadId) => {
+    const client = await pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query(
+        `DELETE FROM checkpoints c
+         WHERE thread_id = $1 AND checkpoint_id < (
+           SELECT max(checkpoint_id) FROM checkpoints
+           WHERE thread_id = $1 AND checkpoint_ns = c.checkpoint_ns
+         )`,
+        [threadId]
+      )
+      await client.query(
+        `DELETE FROM checkpoint_writes w
+         WHERE thread_id = $1 AND NOT EXISTS (
+           SELECT 1 FROM checkpoints c
+           WHERE c.thread_id = w.thread_id
+             AND c.checkpoint_ns = w.checkpoint_ns
+             AND c.checkpoint_id = w.checkpoint_id
+         )`,
+        [threadId]
+      )
+      // Channel values are stored once per version, keep the referenced ones
+      await client.query(
+        `DELETE FROM checkpoint_blobs b
+         WHERE thread_id = $1 AND NOT EXISTS (
+           SELECT 1 FROM checkpoints c
+           WHERE c.thread_id = b.thread_id
+             AND c.checkpoint_ns = b.checkpoint_ns
+             AND c.checkpoint -> 'channel_versions' ->> b.channel = b.version
+         )`,
+        [threadId]
+      )
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  },
+  listGuildThreads: async (guildId) => {
+    const { rows } = await pool.query<{ thread_id: string }>(
+      `SELECT thread_id FROM (
+         SELECT DISTINCT ON (thread_id) thread_id, metadata
+         FROM checkpoints
+         WHERE checkpoint_ns = ''
+         ORDER BY thread_id, checkpoint_id DESC
+       ) latest
+       WHERE metadata->>'guild_id' = $1`,
+      [guildId]
+    )
+    return rows.map((row) => row.thread_id)
+  },
+})
+
+// A lock per thread, dropped once nobody holds or waits for it
+const makeThreadLocks = () => {
+  const locks = new Map<
+    string,
+    { semaphore: Effect.Semaphore; holders: number }
+  >()
+
+  return <A, E, R>(threadId: string, effect: Effect.Effect<A, E, R>) =>
+    Effect.acquireUseRelease(
+      Effect.sync(() => {
+        const lock = locks.get(threadId) ?? {
+          semaphore: Effect.unsafeMakeSemaphore(1),
+          holders: 0,
+        }
+        lock.holders++
+        locks.set(threadId, lock)
+        return lock
+      }),
+      ({ semaphore }) => semaphore.withPermits(1)(effect),
+      (lock) =>
+        Effect.sync(() => {
+          lock.holders--
+          if (lock.holders === 0) locks.delete(threadId)
+        })
+    )
+}
+
+const make = (backend: StoreBackend) => {
+  const { checkpointer } = backend
+  const withThreadLock = makeThreadLocks()
+
+  const attempt = <A>(message: string, run: () => Promise<A>) =>
+    Effect.tryPromise({
+      try: run,
+      catch: (cause) => new ConversationStoreError({ message, cause }),
+    })
+
+  const resetThread = (threadId: string) =>
+    attempt(`Failed to reset thread ${threadId}`, () =>
+      backend.deleteThreads([threadId])
+    ).pipe(Effect.map((deleted) => deleted > 0))
+
+  const deleteThreads = (threadIds: string[]) =>
+    threadIds.length === 0
+      ? Effect.succeed(0)
+      : attempt(`Failed to delete ${threadIds.length} threads`, () =>
+          backend.deleteThreads(threadIds)
+        )
+
+  const listThreads = attempt('Failed to list threads', backend.listThreads)
+
+  return ConversationStore.of({
+    checkpointer,
+    resetThread,
+    listThreads,
+    readThread: (threadId) =>
+      attempt(`Failed to read thread ${threadId}`, () =>
+        checkpointer.getTuple({ configurable: { thread_id: threadId } })
+      ).pipe(
+        Effect.map((tuple) =>
+          Option.fromNullable(tuple).pipe(
+            Option.map(({ checkpoint }) => ({
+              messages: (checkpoint.channel_values.messages ??
+                []) as BaseMessage[],
+              summary: (checkpoint.channel_values.summary ?? '') as string,
+              lastActivity: new Date(checkpoint.ts),
+            }))
+          )
+        )
+      ),
+    withThreadLock,
+    compactThread: (threadId) =>
+      attempt(`Failed to compact thread ${threadId}`, () =>
+        backend.compactThread(threadId)
+      ),
+    deleteThreads,
+    deleteChannel: resetThread,
+    deleteGuild: (guildId) =>
+      attempt(`Failed to list the threads of guild ${guildId}`, () =>
+        backend.listGuildThreads(guildId)
+      ).pipe(Effect.flatMap(deleteThreads)),
+  })
+}
+
+/**
+ * Keep conversations in the process, they are lost on restart
+ */
+export const ConversationStoreMemory = Layer.sync(ConversationStore, () =>
+  make(makeMemoryBackend())
+)
+
+/**
+ * Keep conversations in Postgres, the pool is closed with the layer
+ */
+export const makeConversationStorePostgres = (databaseUrl: string) =>
+  Layer.scoped(
+    ConversationStore,
+    Effect.gen(function* () {
+      const pool = yield* Effect.acquireRelease(
+        Effect.sync(() => new pg.Pool({ connectionString: databaseUrl })),
+        (pool) => Effect.promise(() => pool.end())
+      )
+      const checkpointer = new GuildPostgresSaver(pool)
+      yield* Effect.promise(() => checkpointer.setup())
+
+      return make(makePostgresBackend(pool, checkpointer))
+    })
+  )
+
+/**
+ * Postgres when DATABASE_URL is set, in memory otherwise
+ */
+export const ConversationStoreLive = Layer.unwrapEffect(
+  Effect.gen(function* () {
+    const config = yield* appConfig
+
+    return yield* Option.match(config.databaseUrl, {
+      onNone: () =>
+        Effect.logWarning(
+          'DATABASE_URL is not set, conversations are kept in memory'
+        ).pipe(Effect.as(ConversationStoreMemory)),
+      onSome: (databaseUrl) =>
+        Effect.succeed(makeConversationStorePostgres(databaseUrl)),
+    })
+  })
+)
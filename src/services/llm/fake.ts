@@ -0,0 +1,115 @@
+import {
+  BaseChatModel,
+  type BindToolsInput,
+} from '@langchain/core/language_models/chat_models'
+import { AIMessage, type BaseMessage } from '@langchain/core/messages'
+import type { ChatResult } from '@langchain/core/outputs'
+import { Layer } from 'effect'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  LLMConversationModelContext,
+  LLMSummarizationModelContext,
+  LLMVisionModelContext,
+} from './model'
+
+/**
+ * Scripted chat models, so the graph can be run without network (e.g. tests)
+ */
+
+// A reply is plain text, a full message (e.g. with tool calls),
+// or computed from the prompt the model received
+export type ScriptedReply =
+  | string
+  | AIMessage
+  | ((prompt: BaseMessage[]) => string | AIMessage)
+
+/**
+ * A reply asking for a tool to be called
+ */
+export const toolCallReply = (name: string, args: Record<string, unknown>) =>
+  new AIMessage({
+    content: '',
+    tool_calls: [{ id: uuidv4(), name, args, type: 'tool_call' }],
+  })
+
+/**
+ * Chat model that answers with its script in order and records its prompts
+ * Once the script runs out it answers with the fallback, or fails without one
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  readonly prompts: BaseMessage[][] = []
+  private readonly replies: ScriptedReply[]
+  private readonly fallback?: ScriptedReply
+
+  constructor(replies: ScriptedReply[] = [], fallback?: ScriptedReply) {
+    super({})
+    this.replies = [...replies]
+    this.fallback = fallback
+  }
+
+  _llmType() {
+    return 'scripted'
+  }
+
+  // Tools are only described to a real model, the script already knows them
+  override bindTools(_tools: BindToolsInput[]) {
+    return this
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.prompts.push(messages)
+
+    const reply = this.replies.shift() ?? this.fallback
+    if (reply === undefined) {
+      throw new Error(
+        `ScriptedChatModel ran out of replies after ${this.prompts.length - 1} calls`
+      )
+    }
+
+    const scripted = typeof reply === 'function' ? reply(messages) : reply
+    const message =
+      typeof scripted === 'string'
+        ? new AIMessage({ id: uuidv4(), content: scripted })
+        : scripted
+
+    return {
+      generations: [
+        {
+          text: typeof message.content === 'string' ? message.content : '',
+          message,
+        },
+      ],
+    }
+  }
+}
+
+export interface ScriptedModels {
+  conversation: ScriptedChatModel
+  summarization: ScriptedChatModel
+  vision: ScriptedChatModel
+}
+
+/**
+ * Create a scripted model per role
+ */
+export const makeScriptedModels = (
+  script: {
+    conversation?: ScriptedReply[]
+    summarization?: ScriptedReply[]
+    vision?: ScriptedReply[]
+  } = {}
+): ScriptedModels => ({
+  conversation: new ScriptedChatModel(script.conversation),
+  summarization: new ScriptedChatModel(script.summarization),
+  vision: new ScriptedChatModel(script.vision),
+})
+
+/**
+ * Provide scripted models in place of the OpenRouter ones
+ */
+export const makeScriptedModelsLive = (models: ScriptedModels) =>
+  Layer.mergeAll(
+    Layer.succeed(LLMConversationModelContext, models.conversation),
+    Layer.succeed(LLMSummarizationModelContext, models.summarization),
+    Layer.succeed(LLMVisionModelContext, models.vision)
+  )
@@ -0,0 +1,37 @@
+import { RemoveMessage } from '@langchain/core/messages'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import { Effect } from 'effect'
+import type { LLMContext } from '.'
+
+/**
+ * Drop everything stored in a thread after one of its messages,
+ * e.g. a reply that was blocked before it reached Discord
+ * Never fails, a thread that can't be updated is only logged
+ */
+export const discardMessagesAfter = (
+  llm: LLMContext['Type'],
+  config: RunnableConfig,
+  messageId: string
+) =>
+  Effect.gen(function* () {
+    const state = yield* Effect.tryPromise(() => llm.getState(config))
+    const messages: { id?: string }[] = state.values.messages ?? []
+
+    const index = messages.findIndex((m) => m.id === messageId)
+    if (index === -1) return
+
+    const removals = messages
+      .slice(index + 1)
+      .filter((m) => m.id)
+      .map((m) => new RemoveMessage({ id: m.id as string }))
+    if (removals.length === 0) return
+
+    // As the summarizer, whose only edge is END, so no node is left pending
+    yield* Effect.tryPromise(() =>
+      llm.updateState(config, { messages: removals }, 'summarize_conversation')
+    )
+  }).pipe(
+    Effect.catchAll((error) =>
+      Effect.logWarning(`Failed to discard messages from thread: ${error}`)
+    )
+  )
@@ -0,0 +1,69 @@
+import { Data, Effect } from 'effect'
+import sharp from 'sharp'
+import { config } from '../config'
+
+/**
+ * Image preprocessing before images are given to the vision model
+ *
+ * Images are downscaled to `imageMaxDimension`, animated ones are reduced to
+ * a representative frame, and everything is re-encoded as JPEG. That keeps
+ * token cost low and stays within what providers accept.
+ */
+
+export type ImageSkipReason = 'count' | 'size' | 'pixels' | 'format'
+
+export class ImageSkippedError extends Data.TaggedError('ImageSkippedError')<{
+  reason: ImageSkipReason
+}> {}
+
+export interface PreprocessedImage {
+  data: Buffer
+  contentType: string
+}
+
+/**
+ * Downscale and re-encode an image, rejecting images that are too large
+ * to decode safely or that can't be decoded at all
+ * Large photos are only rejected past `maxImagePixels`, below it they are
+ * downscaled like any other image
+ */
+export const preprocessImage = (input: Buffer) =>
+  Effect.gen(function* () {
+    if (input.byteLength > config.maxImageBytes) {
+      return yield* Effect.fail(new ImageSkippedError({ reason: 'size' }))
+    }
+
+    const metadata = yield* Effect.tryPromise({
+      try: () => sharp(input).metadata(),
+      catch: () => new ImageSkippedError({ reason: 'format' }),
+    })
+
+    const { width = 0, height = 0, pages = 1 } = metadata
+    // Height of animated images is the height of all frames stacked
+    const frameHeight = metadata.pageHeight ?? height
+    if (width * frameHeight > config.maxImagePixels) {
+      return yield* Effect.fail(new ImageSkippedError({ reason: 'pixels' }))
+    }
+
+    // The middle frame shows more of a GIF or animated WebP than the first
+    const page = pages > 1 ? Math.floor(pages / 2) : 0
+
+    const data = yield* Effect.tryPromise({
+      try: () =>
+        sharp(input, { page, limitInputPixels: config.maxImagePixels })
+          .rotate()
+          .resize({
+            width: config.imageMaxDimension,
+            height: config.imageMaxDimension,
+            fit: 'inside',
+            withoutEnlargement: true,
+          })
+          // JPEG has no transparency
+          .flatten({ background: '#ffffff' })
+          .jpeg({ quality: config.imageQuality, mozjpeg: true })
+          .toBuffer(),
+      catch: () => new ImageSkippedError({ reason: 'format' }),
+    })
+
+    return { data, contentType: 'image/jpeg' } satisfies PreprocessedImage
+  })
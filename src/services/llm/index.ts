@@ -7,17 +7,17 @@ import type { RunnableConfig } from '@langchain/core/runnables'
 import {
   Annotation,
   END,
-  MemorySaver,
   MessagesAnnotation,
   REMOVE_ALL_MESSAGES,
   START,
   StateGraph,
 } from '@langchain/langgraph'
-import { PostgresSaver } from '@langchain/langgraph-checkpoint-postgres'
 import { ToolNode } from '@langchain/langgraph/prebuilt'
 import { Context, Effect, Layer } from 'effect'
 import { v4 as uuidv4 } from 'uuid'
+import { ApiService } from '../api'
 import { appConfig } from '../config'
+import { ConversationStore } from './conversationStore'
 import {
   LLMConversationModelContext,
   LLMSummarizationModelContext,
@@ -28,7 +28,8 @@ import {
   buildSummaryMessage,
   systemPromptEffect,
 } from './prompt'
-import { tools } from './tools'
+import { attributeMessages } from './speaker'
+import { makeTools } from './tools'
 
 export class LLMContext extends Context.Tag('LLMContext')<
   LLMContext,
@@ -47,15 +48,17 @@ const GraphAnnotation = Annotation.Root({
     reducer: (_, action) => action,
     default: () => false,
   }),
-  // Add user context (username and intimacy level)
+  // Add user context (username, intimacy level and long-term memories)
   userContext: Annotation<{
     username: string
     intimacy: number
+    memories: string
   }>({
     reducer: (_, action) => action,
     default: () => ({
       username: '',
       intimacy: 0,
+      memories: '',
     }),
   }),
   // Add timestamp for detecting conversation gaps
@@ -74,17 +77,21 @@ export const LLMLive = Layer.effect(
     const summarizationModel = yield* LLMSummarizationModelContext
     const visionModel = yield* LLMVisionModelContext
 
-    // Add memory with Postgres
-    const checkpointer = PostgresSaver.fromConnString(config.databaseUrl)
-    yield* Effect.promise(() => checkpointer.setup())
+    const apiService = yield* ApiService
+
+    // Conversation threads are kept by the store
+    const conversationStore = yield* ConversationStore
+    const { checkpointer } = conversationStore
 
     // Shared conversation logic
+    // The run config is passed on to the model so token streaming reaches the graph
     const createConversation =
       (model: typeof conversationModel) =>
-      (state: typeof GraphAnnotation.State) =>
+      (state: typeof GraphAnnotation.State, runConfig?: RunnableConfig) =>
         Effect.gen(function* () {
           const { summary, userContext } = state
-          let { messages } = state
+          // Make it clear who said what in the shared channel thread
+          let messages = attributeMessages(state.messages)
 
           const systemPrompt = yield* systemPromptEffect
 
@@ -106,18 +113,21 @@ export const LLMLive = Layer.effect(
           )
 
           const response = yield* Effect.promise(() =>
-            model.invoke(formattedPrompt)
+            model.invoke(formattedPrompt, runConfig)
           )
 
           return { messages: [response] }
-        }).pipe(Effect.runPromise)
+        }).pipe(
+          Effect.provideService(ApiService, apiService),
+          Effect.runPromise
+        )
 
     // Create specific nodes using the shared logic
     const conversation = createConversation(conversationModel)
     const vision = createConversation(visionModel)
 
     // Create tool node for executing tools
-    const toolNode = new ToolNode(tools)
+    const toolNode = new ToolNode(makeTools(apiService.effectApi))
 
     // Summarization node
     const summarizeConversation = async (
@@ -130,7 +140,7 @@ export const LLMLive = Layer.effect(
         : buildSummaryMessage()
 
       const allMessages = [
-        ...messages,
+        ...attributeMessages(messages),
         new HumanMessage({
           id: uuidv4(),
           content: summaryMessage,
@@ -165,28 +175,17 @@ export const LLMLive = Layer.effect(
     ) => {
       const threadId = config?.configurable?.thread_id
 
+      // Drop the old checkpoints, the thread starts over from this run
       if (threadId) {
-        try {
-          // biome-ignore lint/suspicious/noExplicitAny: Access private
-          const pool = (checkpointer as any).pool
-
-          // Stupid hack
-          if (pool) {
-            await pool.query('DELETE FROM checkpoints WHERE thread_id = $1', [
-              threadId,
-            ])
-            await pool.query(
-              'DELETE FROM checkpoint_writes WHERE thread_id = $1',
-              [threadId]
-            )
-            await pool.query(
-              'DELETE FROM checkpoint_blobs WHERE thread_id = $1',
-              [threadId]
+        await conversationStore.resetThread(threadId).pipe(
+          Effect.catchAll((error) =>
+            Effect.logError(
+              `Error cleaning up checkpoints: ${error.message}`,
+              error.cause
             )
-          }
-        } catch (error) {
-          console.error('Error cleaning up checkpoints:', error)
-        }
+          ),
+          Effect.runPromise
+        )
       }
 
       const messagesToDelete = state.messages
@@ -228,6 +227,18 @@ export const LLMLive = Layer.effect(
       return state.hasImages ? 'vision' : 'conversation'
     }
 
+    // Summarize once there are more than summarizationThreshold messages
+    const routeToSummary = (
+      state: typeof GraphAnnotation.State
+    ): 'summarize_conversation' | typeof END => {
+      if (state.messages.length > config.summarizationThreshold) {
+        return 'summarize_conversation'
+      }
+
+      // Otherwise we can just end
+      return END
+    }
+
     // Unified routing function for conversation/vision nodes
     const routeFromModel = (
       state: typeof GraphAnnotation.State
@@ -245,13 +256,7 @@ export const LLMLive = Layer.effect(
         return 'tools'
       }
 
-      // If there are more than summarizationThreshold messages, summarize the conversation
-      if (messages.length > config.summarizationThreshold) {
-        return 'summarize_conversation'
-      }
-
-      // Otherwise we can just end
-      return END
+      return routeToSummary(state)
     }
 
     // Determine which model to route back to after tool execution
@@ -283,4 +288,11 @@ export const LLMLive = Layer.effect(
   })
 )
 
+export * from './caption'
+export * from './conversationStore'
+export * from './fake'
+export * from './history'
+export * from './memory'
 export * from './model'
+export * from './speaker'
+export * from './stream'
@@ -0,0 +1,38 @@
+import { Effect } from 'effect'
+import { ApiService, type UserMemory } from '../api'
+import { config } from '../config'
+
+/**
+ * Long-term, per user+guild memory that survives conversation resets
+ */
+
+/**
+ * Render remembered facts for the system prompt, most recently updated first
+ */
+export const formatUserMemories = (memories: readonly UserMemory[]) => {
+  if (memories.length === 0) return 'Nothing yet.'
+
+  return [...memories]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, config.maxUserMemories)
+    .map((memory) => `- ${memory.key}: ${memory.value}`)
+    .join('\n')
+}
+
+/**
+ * Load the formatted memories of a user in a guild.
+ * Never fails, a missing memory should not block a reply.
+ */
+export const loadUserMemories = (userId: string, guildId: string) =>
+  ApiService.pipe(
+    Effect.flatMap(({ effectApi }) =>
+      effectApi.userMemories.getUserMemories(userId, guildId)
+    ),
+    Effect.map((response) => formatUserMemories(response.data.memories)),
+    Effect.tapError((error) =>
+      Effect.logWarning(
+        `Failed to load memories of user ${userId} in guild ${guildId}: ${error.message}`
+      )
+    ),
+    Effect.catchAll(() => Effect.succeed(formatUserMemories([])))
+  )
@@ -1,38 +1,84 @@
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base'
+import type { AIMessageChunk } from '@langchain/core/messages'
+import type { Runnable } from '@langchain/core/runnables'
 import { ChatOpenAI } from '@langchain/openai'
 import { Context, Effect, Layer } from 'effect'
+import { ApiService } from '../api'
 import { appConfig } from '../config'
-import { tools } from './tools'
+import { makeTools } from './tools'
+
+// Any chat model fits, e.g. the scripted ones in ./fake
+type ChatModel = Runnable<BaseLanguageModelInput, AIMessageChunk>
+
+export interface FallbackModel {
+  name: string
+  model: ChatModel
+  timeoutMs: number
+}
+
+/**
+ * Try the models in order, moving on to the next one on error or timeout
+ * The model that answered is logged
+ */
+export const withModelFallbacks = (
+  role: string,
+  models: FallbackModel[]
+): ChatModel => {
+  const [primary, ...fallbacks] = models.map(({ name, model, timeoutMs }) =>
+    model.withConfig({ timeout: timeoutMs }).withListeners({
+      onEnd: () =>
+        Effect.logInfo(`The ${role} model ${name} answered`).pipe(
+          Effect.runSync
+        ),
+      onError: (run) =>
+        Effect.logWarning(
+          `The ${role} model ${name} failed: ${run.error?.split('\n')[0]}`
+        ).pipe(Effect.runSync),
+    })
+  )
+
+  if (!primary) {
+    throw new Error(`No ${role} model is configured`)
+  }
+
+  return fallbacks.length > 0 ? primary.withFallbacks(fallbacks) : primary
+}
 
 export class LLMConversationModelContext extends Context.Tag(
   'LLMConversationModelContext'
-)<LLMConversationModelContext, ReturnType<ChatOpenAI['bindTools']>>() {}
+)<LLMConversationModelContext, ChatModel>() {}
 
 export class LLMSummarizationModelContext extends Context.Tag(
   'LLMSummarizationModelContext'
-)<LLMSummarizationModelContext, ChatOpenAI>() {}
+)<LLMSummarizationModelContext, ChatModel>() {}
 
 export class LLMVisionModelContext extends Context.Tag('LLMVisionModelContext')<
   LLMVisionModelContext,
-  ReturnType<ChatOpenAI['bindTools']>
+  ChatModel
 >() {}
 
 export const LLMConversationModelLive = Layer.effect(
   LLMConversationModelContext,
   Effect.gen(function* () {
     const config = yield* appConfig
-    const llmModel = new ChatOpenAI({
-      apiKey: config.openrouterApiKey,
-      model: config.conversationModel,
-      temperature: 0.8,
-      topP: 1,
-      frequencyPenalty: 0.1,
-      maxCompletionTokens: 225,
-      configuration: {
-        baseURL: config.openrouterBaseUrl,
-      },
-    })
+    const { effectApi } = yield* ApiService
+    const tools = makeTools(effectApi)
 
-    return llmModel.bindTools(tools)
+    return withModelFallbacks(
+      'conversation',
+      config.conversationModels.map(({ model, timeoutMs }) => ({
+        name: model,
+        model: new ChatOpenAI({
+          apiKey: config.openrouterApiKey,
+          model,
+          ...config.conversationGeneration,
+          configuration: {
+            baseURL: config.openrouterBaseUrl,
+          },
+        }).bindTools(tools),
+        timeoutMs,
+      }))
+    )
   })
 )
 
@@ -40,17 +86,21 @@ export const LLMSummarizationModelLive = Layer.effect(
   LLMSummarizationModelContext,
   Effect.gen(function* () {
     const config = yield* appConfig
-    const llmModel = new ChatOpenAI({
-      apiKey: config.openrouterApiKey,
-      model: config.summarizationModel,
-      temperature: 0.15,
-      maxCompletionTokens: 300,
-      configuration: {
-        baseURL: config.openrouterBaseUrl,
-      },
-    })
-
-    return llmModel
+    return withModelFallbacks(
+      'summarization',
+      config.summarizationModels.map(({ model, timeoutMs }) => ({
+        name: model,
+        model: new ChatOpenAI({
+          apiKey: config.openrouterApiKey,
+          model,
+          ...config.summarizationGeneration,
+          configuration: {
+            baseURL: config.openrouterBaseUrl,
+          },
+        }),
+        timeoutMs,
+      }))
+    )
   })
 )
 
@@ -58,17 +108,20 @@ export const LLMVisionModelLive = Layer.effect(
   LLMVisionModelContext,
   Effect.gen(function* () {
     const config = yield* appConfig
-    const llmModel = new ChatOpenAI({
-      apiKey: config.openrouterApiKey,
-      model: config.visionModel,
-      temperature: 0.8,
-      topP: 1,
-      maxCompletionTokens: 225,
-      configuration: {
-        baseURL: config.openrouterBaseUrl,
-      },
-    })
-
-    return llmModel
+    return withModelFallbacks(
+      'vision',
+      config.visionModels.map(({ model, timeoutMs }) => ({
+        name: model,
+        model: new ChatOpenAI({
+          apiKey: config.openrouterApiKey,
+          model,
+          ...config.visionGeneration,
+          configuration: {
+            baseURL: config.openrouterBaseUrl,
+          },
+        }),
+        timeoutMs,
+      }))
+    )
   })
 )
@@ -0,0 +1,78 @@
+import {
+  type BaseMessage,
+  HumanMessage,
+  type MessageContent,
+} from '@langchain/core/messages'
+
+/**
+ * Speaker attribution for the shared, per-channel conversation thread
+ *
+ * Every stored human turn carries its author in `additional_kwargs.speaker`.
+ * Right before a model call the turns are rewritten with a visible
+ * `[DisplayName (id)]:` prefix, so the stored messages stay untouched.
+ */
+
+export interface Speaker {
+  id: string
+  displayName: string
+}
+
+/**
+ * Create a human turn that remembers who sent it
+ */
+export const createSpeakerMessage = (
+  content: MessageContent,
+  speaker: Speaker,
+  id?: string
+) =>
+  new HumanMessage({
+    id,
+    content,
+    additional_kwargs: { speaker },
+  })
+
+/**
+ * Read the author of a stored human turn, if any
+ */
+export const getSpeaker = (message: BaseMessage): Speaker | undefined => {
+  if (message.getType() !== 'human') return undefined
+
+  const speaker = message.additional_kwargs?.speaker as Speaker | undefined
+  if (!speaker?.id || !speaker.displayName) return undefined
+
+  return speaker
+}
+
+export const formatSpeakerPrefix = (speaker: Speaker) =>
+  `[${speaker.displayName} (${speaker.id})]: `
+
+const prefixContent = (
+  content: MessageContent,
+  prefix: string
+): MessageContent => {
+  if (typeof content === 'string') return `${prefix}${content}`
+
+  // Multimodal content, prefix the first text part or add one
+  const textIndex = content.findIndex((part) => part.type === 'text')
+  if (textIndex === -1) return [{ type: 'text', text: prefix }, ...content]
+
+  return content.map((part, index) =>
+    index === textIndex && part.type === 'text'
+      ? { ...part, text: `${prefix}${part.text}` }
+      : part
+  )
+}
+
+/**
+ * Make the author of every human turn visible to the model
+ */
+export const attributeMessages = (messages: BaseMessage[]): BaseMessage[] =>
+  messages.map((message) => {
+    const speaker = getSpeaker(message)
+    if (!speaker) return message
+
+    return new HumanMessage({
+      id: message.id,
+      content: prefixContent(message.content, formatSpeakerPrefix(speaker)),
+    })
+  })
@@ -0,0 +1,70 @@
+import {
+  type BaseMessage,
+  isAIMessage,
+  isBaseMessageChunk,
+} from '@langchain/core/messages'
+import type { RunnableConfig } from '@langchain/core/runnables'
+import { Effect, Option, Stream } from 'effect'
+import type { LLMContext } from '.'
+
+/**
+ * Streaming of Teto's reply out of the graph
+ */
+
+// Only these nodes talk to the user, summarization must not leak out
+const RESPONSE_NODES = new Set(['conversation', 'vision'])
+
+interface ResponseText {
+  id?: string
+  text: string
+}
+
+/**
+ * Fold a graph message into the reply text.
+ * A new message id (e.g. the answer after a tool call) starts over,
+ * so the final text matches the last AI message like a plain invoke.
+ */
+const accumulate = (current: ResponseText, message: BaseMessage) => {
+  const delta = typeof message.content === 'string' ? message.content : ''
+
+  if (current.id !== message.id) {
+    return { id: message.id, text: delta }
+  }
+  if (isBaseMessageChunk(message)) {
+    return { id: message.id, text: current.text + delta }
+  }
+  // Full (non-streamed) node output replaces what was streamed so far
+  return { id: message.id, text: delta }
+}
+
+/**
+ * Stream the cumulative text of Teto's reply, token by token
+ */
+export const streamResponseText = (
+  llm: LLMContext['Type'],
+  input: Record<string, unknown>,
+  config: RunnableConfig
+): Stream.Stream<string, Error> =>
+  Effect.tryPromise({
+    try: () => llm.stream(input, { ...config, streamMode: 'messages' }),
+    catch: (error) =>
+      error instanceof Error ? error : new Error(String(error)),
+  }).pipe(
+    Effect.map((iterable) =>
+      Stream.fromAsyncIterable(
+        iterable as AsyncIterable<[BaseMessage, Record<string, unknown>]>,
+        (error) => (error instanceof Error ? error : new Error(String(error)))
+      )
+    ),
+    Stream.unwrap,
+    Stream.filterMap(([message, metadata]) =>
+      RESPONSE_NODES.has(String(metadata.langgraph_node)) &&
+      isAIMessage(message)
+        ? Option.some(message)
+        : Option.none()
+    ),
+    Stream.scan({ text: '' } as ResponseText, accumulate),
+    Stream.map(({ text }) => text),
+    Stream.filter((text) => text.trim().length > 0),
+    Stream.changes
+  )
@@ -1,6 +1,7 @@
 import { DynamicStructuredTool } from '@langchain/core/tools'
 import { Effect } from 'effect'
 import { z } from 'zod'
+import type { effectApi as EffectApi } from '../api'
 
 // Schema for the get_lyrics tool input
 const GetLyricsSchema = z.object({
@@ -13,129 +14,182 @@ const SearchLyricsSchema = z.object({
   song_title: z.string().describe('The title of the song to search for'),
 })
 
+// Schema for the remember_user_fact tool input
+const RememberUserFactSchema = z.object({
+  key: z
+    .string()
+    .describe(
+      'Short snake_case label for the fact, e.g. preferred_name, favourite_song, running_joke'
+    ),
+  value: z.string().describe('The fact itself, in one short sentence'),
+})
+
 // Tool implementation for getting song lyrics
-export const getLyricsTool = new DynamicStructuredTool({
-  name: 'get_lyrics',
-  description:
-    'Get the lyrics for a specific song when you know both the song title and artist name. Use this when the user provides both the song title and artist.',
-  schema: GetLyricsSchema,
-  func: async ({ song_title, artist }) => {
-    console.log(`[get_lyrics] Called with: ${song_title} by ${artist}`)
-
-    return Effect.gen(function* () {
-      // Define response type
-      interface LyricsResult {
-        lyrics: string
-        title: string
-        artist: string
-        source: string
-      }
+const makeGetLyricsTool = (effectApi: typeof EffectApi) =>
+  new DynamicStructuredTool({
+    name: 'get_lyrics',
+    description:
+      'Get the lyrics for a specific song when you know both the song title and artist name. Use this when the user provides both the song title and artist.',
+    schema: GetLyricsSchema,
+    func: async ({ song_title, artist }) => {
+      console.log(`[get_lyrics] Called with: ${song_title} by ${artist}`)
 
-      let response: LyricsResult
-
-      // First try to get lyrics from our internal API (cache)
-      const cachedResult = yield* Effect.tryPromise({
-        try: async () => {
-          const { lyricsApi } = await import('../api')
-          return await lyricsApi.getLyrics(artist, song_title)
-        },
-        catch: () => new Error('Cache miss'),
-      }).pipe(Effect.catchAll(() => Effect.succeed(null)))
-
-      if (cachedResult) {
-        response = {
-          lyrics: cachedResult.data.lyrics.lyrics,
-          title: cachedResult.data.lyrics.title,
-          artist: cachedResult.data.lyrics.artist,
-          source: 'cache',
+      return Effect.gen(function* () {
+        // Define response type
+        interface LyricsResult {
+          lyrics: string
+          title: string
+          artist: string
+          source: string
         }
-        console.log('[get_lyrics] Found lyrics in cache for: ' + response.title)
-        return (
-          'Found lyrics for "' +
-          response.title +
+
+        let response: LyricsResult
+
+        // First try to get lyrics from our internal API (cache)
+        const cachedResult = yield* effectApi.lyrics
+          .getLyrics(artist, song_title)
+          .pipe(Effect.catchAll(() => Effect.succeed(null)))
+
+        if (cachedResult) {
+          response = {
+            lyrics: cachedResult.data.lyrics.lyrics,
+            title: cachedResult.data.lyrics.title,
+            artist: cachedResult.data.lyrics.artist,
+            source: 'cache',
+          }
+          console.log(
+            '[get_lyrics] Found lyrics in cache for: ' + response.title
+          )
+          return (
+            'Found lyrics for "' +
+            response.title +
+            '" by ' +
+            response.artist +
+            ':\n\n' +
+            response.lyrics
+          )
+        }
+
+        // If not found in cache, return message that lyrics service is not available
+        const unavailableMessage =
+          'Lyrics for "' +
+          song_title +
           '" by ' +
-          response.artist +
-          ':\n\n' +
-          response.lyrics
+          artist +
+          ' are not available in our database. External lyrics services are currently disabled.'
+        console.log(
+          '[get_lyrics] No lyrics found, returning unavailable message'
         )
-      }
+        return unavailableMessage
+      }).pipe(
+        Effect.catchAll((error: unknown) =>
+          Effect.succeed(
+            `Could not find lyrics for "${song_title}" by ${artist}. Error: ${
+              error instanceof Error ? error.message : 'Unknown error occurred'
+            }`
+          )
+        ),
+        Effect.runPromise
+      )
+    },
+  })
 
-      // If not found in cache, return message that lyrics service is not available
-      const unavailableMessage =
-        'Lyrics for "' +
-        song_title +
-        '" by ' +
-        artist +
-        ' are not available in our database. External lyrics services are currently disabled.'
-      console.log('[get_lyrics] No lyrics found, returning unavailable message')
-      return unavailableMessage
-    }).pipe(
-      Effect.catchAll((error: unknown) =>
-        Effect.succeed(
-          `Could not find lyrics for "${song_title}" by ${artist}. Error: ${
-            error instanceof Error ? error.message : 'Unknown error occurred'
-          }`
-        )
-      ),
-      Effect.runPromise
-    )
-  },
-})
+const makeSearchLyricsTool = (effectApi: typeof EffectApi) =>
+  new DynamicStructuredTool({
+    name: 'search_lyrics',
+    description:
+      "Search for song lyrics when you only know the song title but not the artist. Use this when the user asks for lyrics but doesn't specify the artist name.",
+    schema: SearchLyricsSchema,
+    func: async ({ song_title }) => {
+      console.log(`[search_lyrics] Called with: ${song_title}`)
 
-export const searchLyricsTool = new DynamicStructuredTool({
-  name: 'search_lyrics',
-  description:
-    "Search for song lyrics when you only know the song title but not the artist. Use this when the user asks for lyrics but doesn't specify the artist name.",
-  schema: SearchLyricsSchema,
-  func: async ({ song_title }) => {
-    console.log(`[search_lyrics] Called with: ${song_title}`)
-
-    return Effect.gen(function* () {
-      // Try to search for the song in our internal API (cache)
-      const searchResult = yield* Effect.tryPromise({
-        try: async () => {
-          const { lyricsApi } = await import('../api')
-          // Use the existing getLyricsByTitle method which returns multiple matches
-          return await lyricsApi.getLyricsByTitle(song_title)
-        },
-        catch: () => new Error('Search failed'),
-      }).pipe(Effect.catchAll(() => Effect.succeed(null)))
-
-      if (searchResult?.data?.lyrics && searchResult.data.lyrics.length > 0) {
-        // Return the first match (or you could return multiple options)
-        const lyrics = searchResult.data.lyrics[0]
-        console.log('[search_lyrics] Found lyrics for: ' + lyrics.title)
-        return (
-          'Found lyrics for "' +
-          lyrics.title +
-          '" by ' +
-          lyrics.artist +
-          ':\n\n' +
-          lyrics.lyrics
+      return Effect.gen(function* () {
+        // Try to search for the song in our internal API (cache)
+        // Use the existing getLyricsByTitle method which returns multiple matches
+        const searchResult = yield* effectApi.lyrics
+          .getLyricsByTitle(song_title)
+          .pipe(Effect.catchAll(() => Effect.succeed(null)))
+
+        if (searchResult?.data?.lyrics && searchResult.data.lyrics.length > 0) {
+          // Return the first match (or you could return multiple options)
+          const lyrics = searchResult.data.lyrics[0]
+          console.log('[search_lyrics] Found lyrics for: ' + lyrics.title)
+          return (
+            'Found lyrics for "' +
+            lyrics.title +
+            '" by ' +
+            lyrics.artist +
+            ':\n\n' +
+            lyrics.lyrics
+          )
+        }
+
+        // If not found in cache, return message that lyrics service is not available
+        const unavailableMessage =
+          'Could not find lyrics for "' +
+          song_title +
+          '" in our database. External lyrics services are currently disabled. Try providing both the song title and artist name for better results.'
+        console.log(
+          '[search_lyrics] No lyrics found, returning unavailable message'
         )
+        return unavailableMessage
+      }).pipe(
+        Effect.catchAll((error: unknown) =>
+          Effect.succeed(
+            `Could not search for lyrics for "${song_title}". Error: ${
+              error instanceof Error ? error.message : 'Unknown error occurred'
+            }`
+          )
+        ),
+        Effect.runPromise
+      )
+    },
+  })
+
+// Tool implementation for remembering durable facts about the current user
+// user_id and guild_id are passed through the graph's configurable
+const makeRememberUserFactTool = (effectApi: typeof EffectApi) =>
+  new DynamicStructuredTool({
+    name: 'remember_user_fact',
+    description:
+      'Remember a lasting fact about the user you are talking to, such as their preferred name, favourite songs or a running joke. ' +
+      'Use an existing key to update a fact. Do not store temporary moods or anything the user asks you to keep secret.',
+    schema: RememberUserFactSchema,
+    func: async ({ key, value }, _runManager, config) => {
+      const userId = config?.configurable?.user_id as string | undefined
+      const guildId = config?.configurable?.guild_id as string | undefined
+      console.log(`[remember_user_fact] Called with: ${key} = ${value}`)
+
+      if (!userId || !guildId) {
+        return 'Could not remember that, the current user is unknown.'
       }
 
-      // If not found in cache, return message that lyrics service is not available
-      const unavailableMessage =
-        'Could not find lyrics for "' +
-        song_title +
-        '" in our database. External lyrics services are currently disabled. Try providing both the song title and artist name for better results.'
-      console.log(
-        '[search_lyrics] No lyrics found, returning unavailable message'
-      )
-      return unavailableMessage
-    }).pipe(
-      Effect.catchAll((error: unknown) =>
-        Effect.succeed(
-          `Could not search for lyrics for "${song_title}". Error: ${
-            error instanceof Error ? error.message : 'Unknown error occurred'
-          }`
+      return effectApi.userMemories
+        .upsertUserMemory({
+          userId,
+          guildId,
+          key,
+          value,
+        })
+        .pipe(
+          Effect.map(() => `Remembered ${key}: ${value}`),
+          Effect.catchAll((error: unknown) =>
+            Effect.succeed(
+              `Could not remember ${key}. Error: ${
+                error instanceof Error
+                  ? error.message
+                  : 'Unknown error occurred'
+              }`
+            )
+          ),
+          Effect.runPromise
         )
-      ),
-      Effect.runPromise
-    )
-  },
-})
+    },
+  })
 
-// Export the tools for use in the LLM workflow
-export const tools = [getLyricsTool, searchLyricsTool]
+// Create the tools for use in the LLM workflow, backed by the given API
+export const makeTools = (effectApi: typeof EffectApi) => [
+  makeGetLyricsTool(effectApi),
+  makeSearchLyricsTool(effectApi),
+  makeRememberUserFactTool(effectApi),
+]
@@ -1,5 +1,6 @@
-import type { Message } from 'discord.js'
-import { Context, Data, Effect, Layer } from 'effect'
+import { type Message, MessageReferenceType } from 'discord.js'
+import { Context, Data, Effect, Layer, Option } from 'effect'
+import { resolveMentions, restoreMentions } from './mentions'
 
 /**
  * Channel Service - handles channel-related operations
@@ -8,10 +9,44 @@ export class MessagesService extends Context.Tag('MessagesService')<
   MessagesService,
   {
     removeBotMention: (message: Message) => Effect.Effect<string, never>
+    /**
+     * Make user, channel, role and emoji mentions readable for the model
+     */
+    resolveMentions: (
+      message: Message,
+      content: string
+    ) => Effect.Effect<string, never>
+    /**
+     * Turn names in a reply to a message back into mentions where safe,
+     * `related` messages (e.g. the reply chain) add their participants
+     */
+    restoreMentions: (
+      message: Message,
+      content: string,
+      related?: readonly Message[]
+    ) => Effect.Effect<string, never>
+    /**
+     * Walk up the reply chain of a message, returns at most `depth` messages
+     * ordered oldest first. Deleted or inaccessible messages end the walk.
+     */
+    getReplyChain: (
+      message: Message,
+      depth: number
+    ) => Effect.Effect<Message[], never>
   }
 >() {}
 
 const make = Effect.gen(function* () {
+  const fetchReference = (message: Message) =>
+    Effect.tryPromise(() => message.fetchReference()).pipe(
+      Effect.tapError((error) =>
+        Effect.logDebug(
+          `Failed to fetch referenced message of ${message.id}: ${error}`
+        )
+      ),
+      Effect.option
+    )
+
   return MessagesService.of({
     removeBotMention: (message: Message) => {
       const botMention = `<@${message.client.user.id}>`
@@ -22,6 +57,32 @@ const make = Effect.gen(function* () {
         .trim()
       return Effect.succeed(content)
     },
+    resolveMentions: (message: Message, content: string) =>
+      Effect.sync(() => resolveMentions(content, message)),
+    restoreMentions: (
+      message: Message,
+      content: string,
+      related: readonly Message[] = []
+    ) => Effect.sync(() => restoreMentions(content, message, related)),
+    getReplyChain: (message: Message, depth: number) =>
+      Effect.gen(function* () {
+        const chain: Message[] = []
+        let current = message
+
+        while (
+          chain.length < depth &&
+          current.reference?.messageId &&
+          current.reference.type === MessageReferenceType.Default
+        ) {
+          const parent = yield* fetchReference(current)
+          if (Option.isNone(parent)) break
+
+          chain.unshift(parent.value)
+          current = parent.value
+        }
+
+        return chain
+      }),
   })
 })
 
@@ -31,3 +92,5 @@ const make = Effect.gen(function* () {
 export const MessagesServiceLive = Layer.effect(MessagesService, make)
 
 export * from './filter'
+export * from './mentions'
+export * from './moderation'
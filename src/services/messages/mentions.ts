@@ -0,0 +1,172 @@
+import type { Guild, Message, MessageMentionOptions } from 'discord.js'
+import { getGuildSettings } from '../guildSettings'
+
+/**
+ * Mention handling: readable mentions for the model,
+ * and mention safety for outgoing messages
+ */
+
+// Zero-width space, breaks the mention without changing how it looks
+const ZERO_WIDTH_SPACE = '\u200B'
+
+const MASS_MENTION_PATTERN = /@(everyone|here)/g
+const ROLE_MENTION_PATTERN = /<@&(\d+)>/g
+const USER_MENTION_PATTERN = /<@!?(\d+)>/g
+const CHANNEL_MENTION_PATTERN = /<#(\d+)>/g
+const EMOJI_PATTERN = /<a?:(\w+):\d+>/g
+// Code blocks and inline code are left as they are
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`\n]*`)/
+
+/**
+ * Strict policy used by default for everything the client sends
+ */
+export const STRICT_ALLOWED_MENTIONS: MessageMentionOptions = {
+  parse: [],
+  repliedUser: true,
+}
+
+/**
+ * Allowed mentions of a reply in a guild
+ * Only the replied-to user is pingable unless the guild opts in to user pings
+ */
+export function getAllowedMentions(
+  guildId: string | null
+): MessageMentionOptions {
+  if (guildId && getGuildSettings(guildId).allowUserMentions) {
+    return { parse: ['users'], repliedUser: true }
+  }
+
+  return STRICT_ALLOWED_MENTIONS
+}
+
+/**
+ * Neutralize mention syntax that should never come out of the model:
+ * mass mentions are broken up and role mentions become plain role names
+ */
+export function sanitizeMentions(content: string, guild?: Guild | null) {
+  return content
+    .replace(MASS_MENTION_PATTERN, `@${ZERO_WIDTH_SPACE}$1`)
+    .replace(ROLE_MENTION_PATTERN, (_, roleId: string) => {
+      const role = guild?.roles.cache.get(roleId)
+      return `@${ZERO_WIDTH_SPACE}${role?.name ?? 'role'}`
+    })
+}
+
+/**
+ * Turn raw mention syntax into what a Discord user sees:
+ * @DisplayName, #channel-name, @RoleName and :emoji:
+ */
+export function resolveMentions(content: string, message: Message) {
+  const { guild, client } = message
+
+  return content
+    .replace(USER_MENTION_PATTERN, (_, userId: string) => {
+      const member =
+        message.mentions.members?.get(userId) ??
+        guild?.members.cache.get(userId)
+      const user = message.mentions.users.get(userId)
+      return `@${member?.displayName ?? user?.displayName ?? 'unknown-user'}`
+    })
+    .replace(CHANNEL_MENTION_PATTERN, (_, channelId: string) => {
+      const channel =
+        guild?.channels.cache.get(channelId) ??
+        client.channels.cache.get(channelId)
+      return channel && 'name' in channel && channel.name
+        ? `#${channel.name}`
+        : '#unknown-channel'
+    })
+    .replace(ROLE_MENTION_PATTERN, (_, roleId: string) => {
+      const role = guild?.roles.cache.get(roleId)
+      return `@${role?.name ?? 'unknown-role'}`
+    })
+    .replace(EMOJI_PATTERN, ':$1:')
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Build a replacer for names that map to exactly one mention.
+ * Ambiguous names are left as plain text.
+ */
+const makeNameReplacer = (
+  prefix: string,
+  entries: readonly { name: string; mention: string }[]
+) => {
+  const mentions = new Map<string, string | null>()
+  for (const { name, mention } of entries) {
+    if (!name) continue
+    const existing = mentions.get(name)
+    mentions.set(name, existing && existing !== mention ? null : mention)
+  }
+
+  const names = [...mentions.entries()]
+    .filter(([, mention]) => mention !== null)
+    .map(([name]) => name)
+    // Longest first, so "Teto Fan" wins over "Teto"
+    .sort((a, b) => b.length - a.length)
+  if (names.length === 0) return (text: string) => text
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}<])${escapeRegExp(prefix)}(${names.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_-])`,
+    'gu'
+  )
+  return (text: string) =>
+    text.replace(pattern, (match, name: string) => mentions.get(name) ?? match)
+}
+
+/**
+ * Turn names in Teto's output back into proper mentions, where safe:
+ * only people taking part in the conversation (the author, whoever they
+ * mentioned and the reply chain authors), channels of the guild and its
+ * custom emoji. Roles are never restored.
+ */
+export function restoreMentions(
+  content: string,
+  message: Message,
+  related: readonly Message[] = []
+) {
+  const { guild } = message
+  if (!guild) return content
+
+  const participants = [message, ...related].flatMap((m) => [
+    { id: m.author.id, name: m.member?.displayName ?? m.author.displayName },
+    ...[...m.mentions.users.values()].map((user) => ({
+      id: user.id,
+      name: m.mentions.members?.get(user.id)?.displayName ?? user.displayName,
+    })),
+  ])
+
+  const replaceUsers = makeNameReplacer(
+    '@',
+    participants
+      .filter(({ id }) => id !== message.client.user.id)
+      .map(({ id, name }) => ({ name, mention: `<@${id}>` }))
+  )
+  const replaceChannels = makeNameReplacer(
+    '#',
+    [...guild.channels.cache.values()].map((channel) => ({
+      name: channel.name,
+      mention: `<#${channel.id}>`,
+    }))
+  )
+  const replaceEmojis = makeNameReplacer(
+    ':',
+    [...guild.emojis.cache.values()]
+      .filter((emoji) => emoji.available && emoji.name)
+      .map((emoji) => ({
+        name: `${emoji.name}:`,
+        mention: emoji.toString(),
+      }))
+  )
+
+  return content
+    .split(CODE_PATTERN)
+    .map((part, index) =>
+      // Odd parts are the code matched by the split
+      index % 2 === 1
+        ? part
+        : replaceEmojis(replaceChannels(replaceUsers(part)))
+    )
+    .join('')
+}
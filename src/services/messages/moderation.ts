@@ -0,0 +1,147 @@
+import { Context, Data, Effect, Layer, Option } from 'effect'
+import { appConfig } from '../config'
+
+/**
+ * Moderation of Teto's output before it is sent
+ */
+
+export class OutputBlockedError extends Data.TaggedError('OutputBlockedError')<{
+  moderator: string
+  reason: string
+}> {}
+
+/**
+ * One moderation check, returns the reason when the text must not be sent
+ * Checks should not fail, an unavailable check lets the text through
+ */
+export interface OutputModerator {
+  readonly name: string
+  readonly check: (text: string) => Effect.Effect<Option.Option<string>>
+}
+
+/**
+ * Result of an external classifier, e.g. a moderation API
+ */
+export interface ClassifierResult {
+  flagged: boolean
+  categories?: string[]
+}
+
+// Zero-width characters can be used to split a term and dodge the match
+const ZERO_WIDTH_PATTERN = /\u200B|\u200C|\u200D|\u2060|\uFEFF/g
+
+const normalize = (text: string) =>
+  text.normalize('NFKC').replace(ZERO_WIDTH_PATTERN, '').toLowerCase()
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Block text containing any of the terms as a whole word (plurals included)
+ */
+export const makeTermListModerator = (
+  name: string,
+  terms: readonly string[]
+): OutputModerator => {
+  const patterns = terms
+    .map((term) => normalize(term).trim())
+    .filter((term) => term.length > 0)
+    .map((term) => ({
+      term,
+      pattern: new RegExp(
+        `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(e?s)?(?![\\p{L}\\p{N}])`,
+        'u'
+      ),
+    }))
+
+  return {
+    name,
+    check: (text) =>
+      Effect.sync(() => {
+        const normalized = normalize(text)
+        const match = patterns.find(({ pattern }) => pattern.test(normalized))
+        return match ? Option.some(`contains "${match.term}"`) : Option.none()
+      }),
+  }
+}
+
+/**
+ * Adapt a classifier to a moderator
+ * A failing classifier is logged and lets the text through
+ */
+export const makeClassifierModerator = (
+  name: string,
+  classify: (text: string) => Promise<ClassifierResult>
+): OutputModerator => ({
+  name,
+  check: (text) =>
+    Effect.tryPromise(() => classify(text)).pipe(
+      Effect.map((result) =>
+        result.flagged
+          ? Option.some(
+              `flagged as ${result.categories?.join(', ') || 'unsafe'}`
+            )
+          : Option.none()
+      ),
+      Effect.catchAll((error) =>
+        Effect.logWarning(
+          `Moderation classifier ${name} failed: ${error}`
+        ).pipe(Effect.as(Option.none()))
+      )
+    ),
+})
+
+export class OutputModeration extends Context.Tag('OutputModeration')<
+  OutputModeration,
+  {
+    /**
+     * Run every moderator in order, fails with the first block
+     */
+    moderate: (text: string) => Effect.Effect<void, OutputBlockedError>
+  }
+>() {}
+
+/**
+ * Output moderation with the configured term lists, followed by
+ * any additional moderators such as classifiers
+ */
+export const makeOutputModerationLive = (
+  moderators: readonly OutputModerator[] = []
+) =>
+  Layer.effect(
+    OutputModeration,
+    Effect.gen(function* () {
+      const config = yield* appConfig
+
+      const allModerators = [
+        makeTermListModerator('blocked-terms', config.moderationBlockedTerms),
+        makeTermListModerator('slurs', config.moderationSlurs),
+        ...moderators,
+      ]
+
+      const moderate = (text: string) =>
+        Effect.forEach(
+          allModerators,
+          (moderator) =>
+            moderator.check(text).pipe(
+              Effect.flatMap(
+                Option.match({
+                  onNone: () => Effect.void,
+                  onSome: (reason) =>
+                    Effect.fail(
+                      new OutputBlockedError({
+                        moderator: moderator.name,
+                        reason,
+                      })
+                    ),
+                })
+              )
+            ),
+          { discard: true }
+        )
+
+      return { moderate }
+    })
+  )
+
+export const OutputModerationLive = makeOutputModerationLive()
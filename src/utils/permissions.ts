@@ -2,11 +2,13 @@ import {
   type ChatInputCommandInteraction,
   type GuildChannel,
   type Message,
+  MessageReferenceType,
   PermissionFlagsBits,
   type TextChannel,
 } from 'discord.js'
 import { Effect, Either } from 'effect'
 import { ApiService, ChannelService, type MainLive } from '../services'
+import { getGuildSettings } from '../services/guildSettings'
 
 /**
  * Check if the user has the required permission to manage channels
@@ -33,6 +35,31 @@ export function hasManageChannelsPermissionFromMessage(
   return message.member.permissions.has(PermissionFlagsBits.ManageChannels)
 }
 
+/**
+ * Check if the message is a direct Discord reply to one of the bot's messages
+ * Doesn't rely on the "ping on reply" toggle, repliedUser is set either way
+ */
+export function isReplyToBot(message: Message): boolean {
+  return (
+    message.reference?.type === MessageReferenceType.Default &&
+    message.mentions.repliedUser?.id === message.client.user.id
+  )
+}
+
+/**
+ * Check if the message addresses the bot
+ * Either by @mention, or by replying to it where the guild enables it
+ */
+export function isBotAddressed(message: Message): boolean {
+  if (message.mentions.has(message.client.user)) return true
+
+  return (
+    !!message.guildId &&
+    getGuildSettings(message.guildId).replyTrigger &&
+    isReplyToBot(message)
+  )
+}
+
 /**
  * Check if the bot should respond to a message
  * Combines all filtering logic: bot check, guild check, mention check, and permissions
@@ -46,9 +73,9 @@ export function canBotSendMessages(message: Message): boolean {
     return false
   }
 
-  // Check if the bot is mentioned
-  if (!message.mentions.has(message.client.user)) {
-    return false // Not mentioned, ignore
+  // Check if the bot is mentioned (or replied to, where enabled)
+  if (!isBotAddressed(message)) {
+    return false // Not addressed, ignore
   }
 
   const channel = message.channel
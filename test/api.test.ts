@@ -0,0 +1,68 @@
+import { describe, expect, spyOn, test } from 'bun:test'
+import { Effect, Either, Schema } from 'effect'
+import { ApiDecodeError, effectApi } from '../src/services/api'
+import { User } from '../src/services/api/schema'
+
+const user = (messageCredits: unknown) => ({
+  userId: 'user-1',
+  insertedAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+  messageCredits,
+})
+
+// Answer the request with the given JSON body
+const respondWith = (body: unknown) =>
+  spyOn(globalThis, 'fetch').mockResolvedValue(Response.json(body))
+
+describe('API responses', () => {
+  test('a malformed payload fails with ApiDecodeError', async () => {
+    const fetchSpy = respondWith({ data: { user: user('lots') } })
+    try {
+      const error = await effectApi.users
+        .getUser('user-1')
+        .pipe(Effect.flip, Effect.runPromise)
+
+      expect(error).toBeInstanceOf(ApiDecodeError)
+      expect(error).toMatchObject({
+        endpoint: 'users.getUser',
+        field: 'data.user.messageCredits',
+      })
+      // Decoding isn't retried like a failed request
+      expect(fetchSpy).toHaveBeenCalledTimes(1)
+    } finally {
+      fetchSpy.mockRestore()
+    }
+  })
+
+  test('a valid payload is decoded', async () => {
+    const fetchSpy = respondWith({ data: { user: user('42') } })
+    try {
+      const response = await effectApi.users
+        .getUser('user-1')
+        .pipe(Effect.runPromise)
+
+      expect(response.data.user.messageCredits).toBe(42)
+    } finally {
+      fetchSpy.mockRestore()
+    }
+  })
+})
+
+describe('numeric fields', () => {
+  const decodeCredits = (messageCredits: unknown) =>
+    Schema.decodeUnknownEither(User)(user(messageCredits)).pipe(
+      Either.map((decoded) => decoded.messageCredits)
+    )
+
+  test('accept numbers and numeric strings', () => {
+    expect(decodeCredits(42)).toEqual(Either.right(42))
+    expect(decodeCredits('42')).toEqual(Either.right(42))
+    expect(decodeCredits('-1.5')).toEqual(Either.right(-1.5))
+  })
+
+  test('reject anything else', () => {
+    for (const value of ['lots', null, true, undefined]) {
+      expect(Either.isLeft(decodeCredits(value))).toBe(true)
+    }
+  })
+})
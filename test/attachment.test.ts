@@ -0,0 +1,38 @@
+import { describe, expect, spyOn, test } from 'bun:test'
+import { Effect } from 'effect'
+import { imageToBase64 } from '../src/services/llm/attachment'
+
+// A body that never ends and doesn't announce its length
+const endlessResponse = () => {
+  let pulled = 0
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulled += 1
+      controller.enqueue(new Uint8Array(64 * 1024))
+    },
+  })
+  const response = new Response(body, {
+    headers: { 'content-type': 'image/png' },
+  })
+  return { response, pulled: () => pulled }
+}
+
+describe('attachment download', () => {
+  test('stops reading a body without content-length past the limit', async () => {
+    const { response, pulled } = endlessResponse()
+    const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(response)
+    try {
+      const error = await imageToBase64({
+        url: 'https://cdn.example.com/endless.png',
+        contentType: null,
+        size: null,
+      }).pipe(Effect.flip, Effect.runPromise)
+
+      expect(error).toMatchObject({ _tag: 'ImageSkippedError', reason: 'size' })
+      // 8 MB in 64 KB chunks, plus the one that crossed the limit
+      expect(pulled()).toBeLessThan(200)
+    } finally {
+      fetchSpy.mockRestore()
+    }
+  })
+})
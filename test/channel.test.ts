@@ -0,0 +1,196 @@
+import { describe, expect, test } from 'bun:test'
+import type { ChatInputCommandInteraction } from 'discord.js'
+import { Effect, Layer, Runtime, TestClock, TestContext } from 'effect'
+import { execute as blacklist } from '../src/commands/blacklist'
+import {
+  ApiError,
+  ApiService,
+  ChannelService,
+  ChannelServiceLayer,
+  type MainLive,
+  api,
+  makeMemoryEffectApi,
+  promiseApi,
+} from '../src/services'
+import { config } from '../src/services/config'
+import { ConversationStoreMemory } from '../src/services/llm'
+
+const GUILD_ID = 'guild-1'
+const WHITELISTED = 'channel-whitelisted'
+const UNKNOWN = 'channel-unknown'
+
+// Channel service on an in-memory backend whose channel lookups are recorded,
+// and fail while `backendDown` is set
+const makeChannels = () => {
+  const lookups: string[] = []
+  const state = { backendDown: false }
+  const effectApi = makeMemoryEffectApi({ channels: [[WHITELISTED, GUILD_ID]] })
+
+  const ApiServiceStub = Layer.succeed(ApiService, {
+    effectApi: {
+      ...effectApi,
+      channels: {
+        ...effectApi.channels,
+        getChannel: (channelId) =>
+          Effect.suspend(() => {
+            lookups.push(channelId)
+            return state.backendDown
+              ? Effect.fail(new ApiError({ message: 'Backend down' }))
+              : effectApi.channels.getChannel(channelId)
+          }),
+      },
+    },
+    promiseApi,
+    rawClient: api,
+  })
+
+  const layer = Layer.mergeAll(
+    ChannelServiceLayer,
+    ConversationStoreMemory
+  ).pipe(Layer.provideMerge(ApiServiceStub))
+  return { lookups, state, layer }
+}
+
+const run = <A, E, LE>(
+  layer: Layer.Layer<ChannelService, LE>,
+  effect: Effect.Effect<A, E, ChannelService>
+) =>
+  effect.pipe(
+    Effect.provide(layer),
+    Effect.provide(TestContext.TestContext),
+    Effect.runPromise
+  )
+
+describe('channel whitelist cache', () => {
+  test('keeps whitelisted channels for the TTL', async () => {
+    const { lookups, layer } = makeChannels()
+
+    const results = await run(
+      layer,
+      Effect.gen(function* () {
+        const channels = yield* ChannelService
+        const first = yield* channels.isChannelWhitelisted(WHITELISTED)
+        yield* TestClock.adjust(config.channelCacheTtlMs - 1)
+        const cached = yield* channels.isChannelWhitelisted(WHITELISTED)
+        const lookupsWithinTtl = lookups.length
+        // Entries expire once past their TTL
+        yield* TestClock.adjust(2)
+        const expired = yield* channels.isChannelWhitelisted(WHITELISTED)
+        return { first, cached, expired, lookupsWithinTtl }
+      })
+    )
+
+    expect(results).toEqual({
+      first: true,
+      cached: true,
+      expired: true,
+      lookupsWithinTtl: 1,
+    })
+    expect(lookups).toHaveLength(2)
+  })
+
+  test('keeps unknown channels for the shorter negative TTL', async () => {
+    const { lookups, layer } = makeChannels()
+
+    const results = await run(
+      layer,
+      Effect.gen(function* () {
+        const channels = yield* ChannelService
+        const first = yield* channels.isChannelWhitelisted(UNKNOWN)
+        yield* TestClock.adjust(config.channelCacheNegativeTtlMs - 1)
+        const cached = yield* channels.isChannelWhitelisted(UNKNOWN)
+        const lookupsWithinTtl = lookups.length
+        // Entries expire once past their TTL
+        yield* TestClock.adjust(2)
+        const expired = yield* channels.isChannelWhitelisted(UNKNOWN)
+        return { first, cached, expired, lookupsWithinTtl }
+      })
+    )
+
+    expect(config.channelCacheNegativeTtlMs).toBeLessThan(
+      config.channelCacheTtlMs
+    )
+    expect(results).toEqual({
+      first: false,
+      cached: false,
+      expired: false,
+      lookupsWithinTtl: 1,
+    })
+    expect(lookups).toHaveLength(2)
+  })
+
+  test("doesn't cache failed lookups", async () => {
+    const { lookups, state, layer } = makeChannels()
+
+    const results = await run(
+      layer,
+      Effect.gen(function* () {
+        const channels = yield* ChannelService
+        state.backendDown = true
+        const whileDown = yield* channels.isChannelWhitelisted(WHITELISTED)
+        state.backendDown = false
+        const afterwards = yield* channels.isChannelWhitelisted(WHITELISTED)
+        return { whileDown, afterwards }
+      })
+    )
+
+    expect(results).toEqual({ whileDown: false, afterwards: true })
+    expect(lookups).toHaveLength(2)
+  })
+
+  test('writes whitelisted channels through', async () => {
+    const { lookups, layer } = makeChannels()
+
+    const results = await run(
+      layer,
+      Effect.gen(function* () {
+        const channels = yield* ChannelService
+        const before = yield* channels.isChannelWhitelisted(UNKNOWN)
+        yield* channels.whitelistChannel(UNKNOWN, 'user-1', GUILD_ID)
+        const after = yield* channels.isChannelWhitelisted(UNKNOWN)
+        return { before, after }
+      })
+    )
+
+    expect(results).toEqual({ before: false, after: true })
+    expect(lookups).toEqual([UNKNOWN])
+  })
+
+  test('forgets channels removed with /blacklist', async () => {
+    const { lookups, layer } = makeChannels()
+    // Built once, so the command and the checks share the cache
+    const context = Effect.runSync(Effect.scoped(Layer.build(layer)))
+    const isWhitelisted = () =>
+      ChannelService.pipe(
+        Effect.flatMap((channels) =>
+          channels.isChannelWhitelisted(WHITELISTED)
+        ),
+        Effect.provide(context),
+        Effect.runPromise
+      )
+
+    const replies: unknown[] = []
+    const interaction = {
+      guildId: GUILD_ID,
+      user: { id: 'user-1' },
+      memberPermissions: { has: () => true },
+      options: { getChannel: () => ({ id: WHITELISTED }) },
+      reply: async (payload: unknown) => {
+        replies.push(payload)
+      },
+    } as unknown as ChatInputCommandInteraction
+
+    expect(await isWhitelisted()).toBe(true)
+    await blacklist(
+      Runtime.defaultRuntime,
+      Layer.succeedContext(context) as unknown as typeof MainLive,
+      interaction
+    )
+
+    expect(replies).toMatchObject([
+      { content: expect.stringContaining('removed from the whitelist') },
+    ])
+    expect(await isWhitelisted()).toBe(false)
+    expect(lookups).toEqual([WHITELISTED, WHITELISTED])
+  })
+})
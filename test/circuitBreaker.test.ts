@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test'
+import { Effect, Exit, TestClock, TestContext } from 'effect'
+import { CircuitBreaker, CircuitBreakerLive } from '../src/services'
+import { appConfig } from '../src/services/config'
+
+const config = Effect.runSync(appConfig)
+
+const GROUP = 'users'
+
+const run = <A, E>(effect: Effect.Effect<A, E, CircuitBreaker>) =>
+  effect.pipe(
+    Effect.provide(CircuitBreakerLive),
+    Effect.provide(TestContext.TestContext),
+    Effect.runPromise
+  )
+
+// Fail enough calls to open the circuit, then wait until a trial is allowed
+const openCircuit = Effect.gen(function* () {
+  const breaker = yield* CircuitBreaker
+  for (let i = 0; i < config.circuitBreakerFailureThreshold; i++) {
+    yield* Effect.exit(breaker.protect(GROUP, Effect.fail('down')))
+  }
+  yield* TestClock.adjust(config.circuitBreakerResetMs)
+  return breaker
+})
+
+describe('circuit breaker', () => {
+  test('closes again after a successful trial', async () => {
+    const status = await run(
+      Effect.gen(function* () {
+        const breaker = yield* openCircuit
+        yield* breaker.protect(GROUP, Effect.succeed('up'))
+        return yield* breaker.getStatus(GROUP)
+      })
+    )
+
+    expect(status.state).toBe('closed')
+  })
+
+  test('opens again when the trial dies, and allows the next trial', async () => {
+    const { afterDefect, next, status } = await run(
+      Effect.gen(function* () {
+        const breaker = yield* openCircuit
+
+        const trial = yield* Effect.exit(
+          breaker.protect(GROUP, Effect.die(new Error('boom')))
+        )
+        expect(Exit.isFailure(trial)).toBe(true)
+        const afterDefect = yield* breaker.getStatus(GROUP)
+
+        yield* TestClock.adjust(config.circuitBreakerResetMs)
+        const next = yield* breaker.protect(GROUP, Effect.succeed('up'))
+
+        return { afterDefect, next, status: yield* breaker.getStatus(GROUP) }
+      })
+    )
+
+    expect(afterDefect.state).toBe('open')
+    expect(next).toBe('up')
+    expect(status.state).toBe('closed')
+  })
+})
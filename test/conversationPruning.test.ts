@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'bun:test'
+import { emptyCheckpoint } from '@langchain/langgraph'
+import {
+  type Client,
+  Collection,
+  DiscordAPIError,
+  RESTJSONErrorCodes,
+} from 'discord.js'
+import { Effect, Layer } from 'effect'
+import {
+  ApiService,
+  api,
+  makeMemoryEffectApi,
+  promiseApi,
+} from '../src/services'
+import { pruneConversations } from '../src/services/conversationPruning'
+import { ConversationStore, ConversationStoreMemory } from '../src/services/llm'
+
+const GUILD_ID = 'guild-1'
+const CACHED_CHANNEL = 'channel-cached'
+const UNCACHED_CHANNEL = 'channel-uncached'
+const DELETED_CHANNEL = 'channel-deleted'
+const UNREACHABLE_CHANNEL = 'channel-unreachable'
+
+const unknownChannel = () =>
+  new DiscordAPIError(
+    { code: RESTJSONErrorCodes.UnknownChannel, message: 'Unknown Channel' },
+    RESTJSONErrorCodes.UnknownChannel,
+    404,
+    'GET',
+    '/channels',
+    {}
+  )
+
+// Only the cached channel is in the cache, Discord still knows the uncached one
+const fakeClient = {
+  guilds: { cache: new Collection([[GUILD_ID, {}]]) },
+  channels: {
+    cache: new Collection([[CACHED_CHANNEL, {}]]),
+    fetch: async (channelId: string) => {
+      if (channelId === DELETED_CHANNEL) throw unknownChannel()
+      if (channelId === UNREACHABLE_CHANNEL) throw new Error('Gateway timeout')
+      return {}
+    },
+  },
+} as unknown as Client
+
+const ApiServiceStub = Layer.succeed(ApiService, {
+  effectApi: makeMemoryEffectApi({
+    channels: [
+      CACHED_CHANNEL,
+      UNCACHED_CHANNEL,
+      DELETED_CHANNEL,
+      UNREACHABLE_CHANNEL,
+    ].map((channelId) => [channelId, GUILD_ID] as const),
+  }),
+  promiseApi,
+  rawClient: api,
+})
+
+const writeThread = (threadId: string) =>
+  Effect.gen(function* () {
+    const { checkpointer } = yield* ConversationStore
+    yield* Effect.promise(() =>
+      checkpointer.put(
+        {
+          configurable: { thread_id: threadId, checkpoint_ns: '' },
+          metadata: { guild_id: GUILD_ID },
+        },
+        emptyCheckpoint(),
+        { source: 'input', step: -1, writes: null, parents: {} },
+        {}
+      )
+    )
+  })
+
+describe('conversation pruning', () => {
+  test('only prunes channels Discord reports as unknown', async () => {
+    const { result, remaining } = await Effect.gen(function* () {
+      for (const threadId of [
+        CACHED_CHANNEL,
+        UNCACHED_CHANNEL,
+        DELETED_CHANNEL,
+        UNREACHABLE_CHANNEL,
+      ]) {
+        yield* writeThread(threadId)
+      }
+
+      const result = yield* pruneConversations(fakeClient)
+      const store = yield* ConversationStore
+      const remaining = (yield* store.listThreads).map(
+        (thread) => thread.threadId
+      )
+      return { result, remaining }
+    }).pipe(
+      Effect.provide(Layer.merge(ConversationStoreMemory, ApiServiceStub)),
+      Effect.runPromise
+    )
+
+    expect(result.deletedChannel).toBe(1)
+    expect(remaining.sort()).toEqual(
+      [CACHED_CHANNEL, UNCACHED_CHANNEL, UNREACHABLE_CHANNEL].sort()
+    )
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test'
+import { MessagesAnnotation, StateGraph } from '@langchain/langgraph'
+import { Effect, Fiber, TestClock, TestContext } from 'effect'
+import { ConversationStore, ConversationStoreMemory } from '../src/services/llm'
+
+describe('conversation store', () => {
+  test('runs work on one thread one at a time', async () => {
+    const events = await Effect.gen(function* () {
+      const { withThreadLock } = yield* ConversationStore
+      const events: string[] = []
+      const work = (name: string, thread: string) =>
+        withThreadLock(
+          thread,
+          Effect.gen(function* () {
+            events.push(`${name} start`)
+            yield* Effect.sleep('1 second')
+            events.push(`${name} end`)
+          })
+        )
+
+      const fibers = yield* Effect.forEach(
+        [
+          work('first', 'channel-1'),
+          work('second', 'channel-1'),
+          work('other', 'channel-2'),
+        ],
+        Effect.fork
+      )
+      yield* TestClock.adjust('2 seconds')
+      yield* Fiber.joinAll(fibers)
+      return events
+    }).pipe(
+      Effect.provide(ConversationStoreMemory),
+      Effect.provide(TestContext.TestContext),
+      Effect.runPromise
+    )
+
+    // The same thread waits, the other one doesn't
+    const at = (event: string) => events.indexOf(event)
+    expect(at('second start')).toBeGreaterThan(at('first end'))
+    expect(at('other start')).toBeLessThan(at('first end'))
+    expect(events).toHaveLength(6)
+  })
+
+  test('deletes the threads run from a guild', async () => {
+    const { deleted, remaining } = await Effect.gen(function* () {
+      const store = yield* ConversationStore
+      const graph = new StateGraph(MessagesAnnotation)
+        .addNode('reply', () => ({ messages: [] }))
+        .addEdge('__start__', 'reply')
+        .compile({ checkpointer: store.checkpointer })
+
+      for (const [threadId, guildId] of [
+        ['channel-1', 'guild-1'],
+        ['channel-2', 'guild-1'],
+        ['channel-3', 'guild-2'],
+      ]) {
+        yield* Effect.promise(() =>
+          graph.invoke(
+            { messages: [] },
+            {
+              configurable: { thread_id: threadId },
+              metadata: { guild_id: guildId },
+            }
+          )
+        )
+      }
+
+      const deleted = yield* store.deleteGuild('guild-1')
+      const remaining = yield* store.listThreads
+      return { deleted, remaining }
+    }).pipe(Effect.provide(ConversationStoreMemory), Effect.runPromise)
+
+    expect(deleted).toBe(2)
+    expect(remaining).toMatchObject([
+      { threadId: 'channel-3', guildId: 'guild-2' },
+    ])
+  })
+})
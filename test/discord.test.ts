@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test'
+import { EMBED_DESCRIPTION_LIMIT } from '../src/embeds/longReply'
+import {
+  DISCORD_MESSAGE_LIMIT,
+  buildReplyPayloads,
+  splitMessage,
+} from '../src/services/discord'
+import { STRICT_ALLOWED_MENTIONS } from '../src/services/messages/mentions'
+
+const codeBlock = (lines: number) =>
+  [
+    '```ts',
+    ...Array.from({ length: lines }, (_, i) => `const value${i} = ${i}`),
+    '```',
+  ].join('\n')
+
+// About 5700 characters of short sentences
+const LONG_REPLY = 'Teto sings a song. '.repeat(300).trim()
+
+describe('splitMessage', () => {
+  test('keeps a message under the limit whole', () => {
+    expect(splitMessage('  Hello Teto!  ')).toEqual(['Hello Teto!'])
+  })
+
+  test('splits at paragraph breaks', () => {
+    const text = `${'a'.repeat(60)}\n\n${'b'.repeat(60)}`
+
+    expect(splitMessage(text, 100)).toEqual(['a'.repeat(60), 'b'.repeat(60)])
+  })
+
+  test('splits at sentence ends outside of code', () => {
+    const text =
+      'This is the first sentence. This is the second one! And a third sentence follows.'
+
+    expect(splitMessage(text, 60)).toEqual([
+      'This is the first sentence. This is the second one!',
+      'And a third sentence follows.',
+    ])
+  })
+
+  test('splits before a code block rather than inside it', () => {
+    const text = `${'Some words before the code '.repeat(3)}\n${codeBlock(3)}`
+
+    expect(splitMessage(text, 110)).toEqual([
+      'Some words before the code '.repeat(3).trim(),
+      codeBlock(3),
+    ])
+  })
+
+  test('closes and reopens a code block cut in half', () => {
+    const chunks = splitMessage(codeBlock(12), 100)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(100)
+      expect(chunk.startsWith('```ts\n')).toBe(true)
+      expect(chunk.endsWith('\n```')).toBe(true)
+    }
+    // Every line of code is kept, in order
+    const code = chunks.flatMap((chunk) => chunk.split('\n').slice(1, -1))
+    expect(code).toEqual(codeBlock(12).split('\n').slice(1, -1))
+  })
+
+  test("doesn't reopen a code block that ends at the cut", () => {
+    const code = '```ts\nconst a = 1\nconst b = 2\n```'
+    const text = `Here is the fix for you\n${code}\nAnd that should do it for now`
+
+    expect(splitMessage(text, 60)).toEqual([
+      `Here is the fix for you\n${code}`,
+      'And that should do it for now',
+    ])
+  })
+})
+
+describe('buildReplyPayloads', () => {
+  test('splits replies under the threshold into messages', () => {
+    const payloads = buildReplyPayloads(LONG_REPLY, null, {
+      threshold: 8000,
+      format: 'embed',
+    })
+
+    expect(payloads.length).toBeGreaterThan(2)
+    for (const payload of payloads) {
+      expect(payload.content?.length).toBeLessThanOrEqual(DISCORD_MESSAGE_LIMIT)
+      expect(payload.allowedMentions).toEqual(STRICT_ALLOWED_MENTIONS)
+    }
+    expect(payloads.map((payload) => payload.content).join(' ')).toBe(
+      LONG_REPLY
+    )
+  })
+
+  test('sends replies over the threshold as numbered embeds', () => {
+    const payloads = buildReplyPayloads(LONG_REPLY, null, {
+      threshold: 4000,
+      format: 'embed',
+    })
+
+    const embeds = payloads.flatMap((payload) => payload.embeds ?? [])
+    expect(payloads).toHaveLength(2)
+    expect(payloads.every((payload) => !payload.content)).toBe(true)
+    for (const embed of embeds) {
+      expect(embed.data.description?.length).toBeLessThanOrEqual(
+        EMBED_DESCRIPTION_LIMIT
+      )
+    }
+    expect(embeds.map((embed) => embed.data.footer?.text)).toEqual([
+      '1/2',
+      '2/2',
+    ])
+  })
+
+  test('sends replies over the threshold as a file with a preview', () => {
+    const payloads = buildReplyPayloads(LONG_REPLY, null, {
+      threshold: 4000,
+      format: 'file',
+    })
+
+    expect(payloads).toHaveLength(1)
+    const [payload] = payloads
+    expect(payload?.content?.endsWith(' …')).toBe(true)
+    expect(payload?.content?.length).toBeLessThan(400)
+    expect(payload?.files?.map((file) => file.name)).toEqual(['response.txt'])
+    expect(String(payload?.files?.[0]?.attachment)).toBe(LONG_REPLY)
+  })
+})
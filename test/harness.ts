@@ -0,0 +1,318 @@
+import {
+  type Client,
+  Collection,
+  type Message,
+  PermissionFlagsBits,
+} from 'discord.js'
+import { Effect, Layer, Option, Runtime, Stream } from 'effect'
+import { v4 as uuidv4 } from 'uuid'
+import { messageCreateListener } from '../src/listeners/messageCreate'
+import {
+  ApiService,
+  ChannelService,
+  CircuitBreaker,
+  type CircuitStatus,
+  type MemoryApiSeed,
+  api,
+  type effectApi,
+  makeMemoryEffectApi,
+  promiseApi,
+} from '../src/services'
+import { ChannelRateLimiter } from '../src/services/channelRateLimiter'
+import { ClientContext } from '../src/services/client'
+import { DiscordService } from '../src/services/discord'
+import {
+  ConversationStore,
+  ConversationStoreMemory,
+  LLMLive,
+  type ScriptedModels,
+  makeScriptedModels,
+  makeScriptedModelsLive,
+} from '../src/services/llm'
+import {
+  MessagesServiceLive,
+  type OutputModerator,
+  makeOutputModerationLive,
+} from '../src/services/messages'
+
+/**
+ * Harness running messageCreateListener against stub services
+ * Replies, backend calls and whitelisted channels are recorded
+ */
+
+export const BOT_ID = '100'
+export const GUILD_ID = '200'
+export const CHANNEL_ID = '300'
+export const USER_ID = '400'
+
+export interface FakeMessageOptions {
+  content?: string
+  channelId?: string
+  // Whether the author has Manage Channels in the guild
+  canManageChannels?: boolean
+  // Text files attached to the message, served from data URLs
+  files?: { name: string; text: string }[]
+  // PNG images attached to the message, served from data URLs
+  images?: { name: string; data: Buffer }[]
+}
+
+/**
+ * Build a guild message that @mentions the bot
+ * Only what the listener reads is filled in
+ */
+export const makeFakeMessage = ({
+  content = 'Hello Teto!',
+  channelId = CHANNEL_ID,
+  canManageChannels = false,
+  files = [],
+  images = [],
+}: FakeMessageOptions = {}) => {
+  const bot = {
+    id: BOT_ID,
+    username: 'Teto',
+    displayName: 'Teto',
+    bot: true,
+  }
+  const author = {
+    id: USER_ID,
+    username: 'tester',
+    displayName: 'Tester',
+    bot: false,
+  }
+
+  return {
+    id: uuidv4(),
+    content: `<@${BOT_ID}> ${content}`,
+    author,
+    channelId,
+    guildId: GUILD_ID,
+    channel: { id: channelId },
+    guild: {
+      id: GUILD_ID,
+      members: { me: bot, cache: new Collection() },
+      roles: { cache: new Collection() },
+      channels: { cache: new Collection() },
+      emojis: { cache: new Collection() },
+    },
+    member: {
+      displayName: author.displayName,
+      permissions: {
+        has: (permission: bigint) =>
+          canManageChannels &&
+          permission === PermissionFlagsBits.ManageChannels,
+      },
+    },
+    client: { user: bot },
+    mentions: {
+      has: (user: { id: string }) => user.id === BOT_ID,
+      users: new Collection([[BOT_ID, bot]]),
+      members: new Collection(),
+      repliedUser: null,
+    },
+    reference: null,
+    attachments: new Collection(
+      [
+        ...files.map(({ name, text }) => ({
+          name,
+          data: Buffer.from(text),
+          contentType: 'text/plain',
+        })),
+        ...images.map(({ name, data }) => ({
+          name,
+          data,
+          contentType: 'image/png',
+        })),
+      ].map(({ name, data, contentType }) => {
+        const id = uuidv4()
+        return [
+          id,
+          {
+            id,
+            name,
+            url: `data:${contentType};base64,${data.toString('base64')}`,
+            size: data.byteLength,
+            contentType,
+          },
+        ]
+      })
+    ),
+    embeds: [],
+    stickers: new Collection(),
+  } as unknown as Message
+}
+
+export interface ApiCall {
+  endpoint: string
+  args: unknown[]
+}
+
+type EffectApi = typeof effectApi
+type Endpoint = (...args: never[]) => Effect.Effect<unknown, unknown>
+
+// Record every call before it reaches the in-memory backend
+const recordCalls = (target: EffectApi, calls: ApiCall[]): EffectApi =>
+  Object.fromEntries(
+    Object.entries(target).map(([group, endpoints]) => [
+      group,
+      Object.fromEntries(
+        Object.entries(endpoints as Record<string, Endpoint>).map(
+          ([name, endpoint]) => [
+            name,
+            (...args: never[]) =>
+              Effect.suspend(() => {
+                calls.push({ endpoint: `${group}.${name}`, args })
+                return endpoint(...args)
+              }),
+          ]
+        )
+      ),
+    ])
+  ) as EffectApi
+
+export interface HarnessOptions {
+  models?: ScriptedModels
+  seed?: MemoryApiSeed
+  // Channels whitelisted from the start
+  whitelisted?: string[]
+  rateLimited?: boolean
+  // Added to the configured term lists
+  moderators?: OutputModerator[]
+}
+
+export const makeHarness = ({
+  models = makeScriptedModels(),
+  seed,
+  whitelisted = [CHANNEL_ID],
+  rateLimited = false,
+  moderators = [],
+}: HarnessOptions = {}) => {
+  const replies: string[] = []
+  const apiCalls: ApiCall[] = []
+  const whitelist = new Set(whitelisted)
+  // Circuits not listed are closed
+  const circuits = new Map<string, CircuitStatus>()
+
+  const ApiServiceStub = Layer.succeed(ApiService, {
+    effectApi: recordCalls(makeMemoryEffectApi(seed), apiCalls),
+    promiseApi,
+    rawClient: api,
+  })
+
+  const ChannelServiceStub = Layer.succeed(
+    ChannelService,
+    ChannelService.of({
+      isChannelWhitelisted: (channelId) =>
+        Effect.sync(() => whitelist.has(channelId)),
+      checkChannelAccess: (channelId, predicate) =>
+        Effect.sync(() => predicate(channelId) || whitelist.has(channelId)),
+      whitelistChannel: (channelId) =>
+        Effect.sync(() => {
+          whitelist.add(channelId)
+        }),
+      invalidateChannel: () => Effect.void,
+      warmUp: Effect.void,
+    })
+  )
+
+  // A streamed reply is recorded once, with its final text
+  const DiscordServiceStub = Layer.succeed(
+    DiscordService,
+    DiscordService.of({
+      reply: (_message, content) =>
+        Effect.sync(() => {
+          replies.push(content)
+          return true
+        }),
+      streamReply: (_message, content, options) =>
+        Stream.runLast(content).pipe(
+          Effect.tap((text) =>
+            Option.isSome(text) && options?.check
+              ? options.check(text.value)
+              : Effect.void
+          ),
+          Effect.map((text) => {
+            if (Option.isSome(text)) replies.push(text.value)
+            return Option.isSome(text)
+          })
+        ),
+    })
+  )
+
+  const CircuitBreakerStub = Layer.succeed(
+    CircuitBreaker,
+    CircuitBreaker.of({
+      protect: (_group, effect) => effect,
+      getStatus: (group) =>
+        Effect.sync(
+          () =>
+            circuits.get(group) ?? {
+              state: 'closed',
+              failures: 0,
+              openedAt: null,
+            }
+        ),
+      getAllStatuses: Effect.sync(() => Object.fromEntries(circuits)),
+    })
+  )
+
+  const ChannelRateLimiterStub = Layer.succeed(
+    ChannelRateLimiter,
+    ChannelRateLimiter.of({
+      isRateLimited: () => Effect.succeed(rateLimited),
+      getRemainingRequests: () => Effect.succeed(rateLimited ? 0 : 1),
+      getTimeUntilReset: () => Effect.succeed(rateLimited ? 30_000 : 0),
+      getStats: () => Effect.succeed({ channelCount: 0, totalRequests: 0 }),
+      startCleanup: () => Effect.void,
+    })
+  )
+
+  // Built once, so threads outlive a message like with the bot's memoized layer
+  const ConversationStoreShared = Layer.succeedContext(
+    Effect.runSync(Effect.scoped(Layer.build(ConversationStoreMemory)))
+  )
+
+  const live = Layer.mergeAll(
+    Layer.succeed(ClientContext, {} as Client<true>),
+    ApiServiceStub,
+    LLMLive.pipe(
+      Layer.provide(makeScriptedModelsLive(models)),
+      Layer.provide(ApiServiceStub),
+      Layer.provide(ConversationStoreShared)
+    ),
+    ConversationStoreShared,
+    makeScriptedModelsLive(models),
+    ChannelRateLimiterStub,
+    CircuitBreakerStub,
+    ChannelServiceStub,
+    DiscordServiceStub,
+    MessagesServiceLive,
+    makeOutputModerationLive(moderators)
+  )
+
+  const listener = messageCreateListener(Runtime.defaultRuntime, live)
+
+  return {
+    models,
+    replies,
+    apiCalls,
+    whitelist,
+    circuits,
+    /**
+     * Deliver a message to the listener and wait until it's handled
+     */
+    send: (options?: FakeMessageOptions) => listener(makeFakeMessage(options)),
+    /**
+     * Messages currently stored in the channel's thread
+     */
+    readThread: () =>
+      Effect.gen(function* () {
+        const store = yield* ConversationStore
+        const thread = yield* store.readThread(CHANNEL_ID)
+        return Option.match(thread, {
+          onNone: () => [],
+          onSome: ({ messages }) => messages,
+        })
+      }).pipe(Effect.provide(live), Effect.runPromise),
+    endpointsCalled: () => apiCalls.map(({ endpoint }) => endpoint),
+  }
+}
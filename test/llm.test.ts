@@ -0,0 +1,237 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  type BaseMessage,
+  HumanMessage,
+  type MessageContent,
+  SystemMessage,
+  ToolMessage,
+} from '@langchain/core/messages'
+import { Effect, Layer } from 'effect'
+import { v4 as uuidv4 } from 'uuid'
+import { ApiService, ApiServiceLive, makeLLMLayer } from '../src/services'
+import { appConfig } from '../src/services/config'
+import {
+  ConversationStore,
+  ConversationStoreLive,
+  LLMContext,
+  ScriptedChatModel,
+  type ScriptedModels,
+  captionThreadImages,
+  makeScriptedModels,
+  makeScriptedModelsLive,
+  toolCallReply,
+} from '../src/services/llm'
+
+const config = Effect.runSync(appConfig)
+
+interface GraphState {
+  messages: BaseMessage[]
+  summary: string
+  hasImages: boolean
+}
+
+// Build the graph with the scripted models and a fresh in-memory backend
+const withGraph = <A>(
+  models: ScriptedModels,
+  run: (
+    llm: LLMContext['Type'],
+    effectApi: ApiService['Type']['effectApi']
+  ) => Promise<A>
+) =>
+  Effect.gen(function* () {
+    const llm = yield* LLMContext
+    const { effectApi } = yield* ApiService
+    return yield* Effect.promise(() => run(llm, effectApi))
+  }).pipe(
+    Effect.provide(
+      Layer.merge(makeLLMLayer(makeScriptedModelsLive(models)), ApiServiceLive)
+    ),
+    Effect.runPromise
+  )
+
+const makeThread = () => ({
+  configurable: {
+    thread_id: uuidv4(),
+    user_id: 'user-1',
+    guild_id: 'guild-1',
+  },
+  metadata: { guild_id: 'guild-1' },
+})
+
+const input = (content: MessageContent, hasImages = false) => ({
+  messages: [new HumanMessage({ id: uuidv4(), content })],
+  hasImages,
+  userContext: { username: 'tester', intimacy: 0, memories: '' },
+})
+
+const invoke = async (
+  llm: LLMContext['Type'],
+  content: MessageContent,
+  thread: ReturnType<typeof makeThread>,
+  hasImages = false
+) => (await llm.invoke(input(content, hasImages), thread)) as GraphState
+
+const textOf = (message?: BaseMessage) =>
+  typeof message?.content === 'string'
+    ? message.content
+    : JSON.stringify(message?.content)
+
+describe('LLM graph', () => {
+  test('answers with the conversation model after the system prompt', async () => {
+    const models = makeScriptedModels({ conversation: ['Hi there!'] })
+
+    const state = await withGraph(models, (llm) =>
+      invoke(llm, 'Hello Teto', makeThread())
+    )
+
+    expect(textOf(state.messages.at(-1))).toBe('Hi there!')
+    expect(models.conversation.prompts).toHaveLength(1)
+    expect(models.vision.prompts).toHaveLength(0)
+
+    const [prompt] = models.conversation.prompts
+    expect(prompt[0]).toBeInstanceOf(SystemMessage)
+    expect(textOf(prompt[0])).toContain('Kasane Teto')
+    expect(textOf(prompt.at(-1))).toContain('Hello Teto')
+  })
+
+  test('runs requested tools and answers with their result', async () => {
+    const models = makeScriptedModels({
+      conversation: [
+        toolCallReply('remember_user_fact', {
+          key: 'favourite_song',
+          value: 'Fukkireta',
+        }),
+        'I will remember that!',
+      ],
+    })
+
+    const { state, memories } = await withGraph(models, async (llm, api) => {
+      const state = await invoke(llm, 'I love Fukkireta', makeThread())
+      const memories = await Effect.runPromise(
+        api.userMemories.getUserMemories('user-1', 'guild-1')
+      )
+      return { state, memories }
+    })
+
+    expect(textOf(state.messages.at(-1))).toBe('I will remember that!')
+    expect(memories.data.memories).toEqual([
+      expect.objectContaining({ key: 'favourite_song', value: 'Fukkireta' }),
+    ])
+
+    const toolResult = models.conversation.prompts[1].at(-1)
+    expect(toolResult).toBeInstanceOf(ToolMessage)
+    expect(textOf(toolResult)).toBe('Remembered favourite_song: Fukkireta')
+  })
+
+  test('summarizes the thread once it grows past the threshold', async () => {
+    // Every turn adds the user message and the answer
+    const turns = Math.floor(config.summarizationThreshold / 2) + 1
+    const models: ScriptedModels = {
+      ...makeScriptedModels({ summarization: ['They talked about bread.'] }),
+      conversation: new ScriptedChatModel([], 'Okay!'),
+    }
+
+    const state = await withGraph(models, async (llm) => {
+      const thread = makeThread()
+      for (let turn = 0; turn < turns; turn++) {
+        await invoke(llm, `Message ${turn}`, thread)
+      }
+      return invoke(llm, 'What did we talk about?', thread)
+    })
+
+    expect(models.summarization.prompts).toHaveLength(1)
+    expect(state.summary).toBe('They talked about bread.')
+    // Kept messages, plus the last question and its answer
+    expect(state.messages).toHaveLength(config.recentMessagesKeep + 2)
+
+    const lastPrompt = models.conversation.prompts.at(-1) ?? []
+    expect(lastPrompt.map(textOf).join('\n')).toContain(
+      'Summary of conversation earlier: They talked about bread.'
+    )
+    expect(lastPrompt.map(textOf).join('\n')).not.toContain('Message 0')
+  })
+
+  test('starts over after a long gap in the conversation', async () => {
+    const models = makeScriptedModels({
+      conversation: ['First answer', 'Second answer'],
+    })
+
+    const state = await withGraph(models, async (llm) => {
+      const thread = makeThread()
+      await invoke(llm, 'First question', thread)
+      await llm.updateState(
+        thread,
+        {
+          lastMessageTimestamp:
+            Date.now() - config.conversationGapThresholdMs - 1000,
+        },
+        'summarize_conversation'
+      )
+      return invoke(llm, 'A new topic', thread)
+    })
+
+    expect(state.messages.map(textOf)).toEqual(['A new topic', 'Second answer'])
+    expect(models.conversation.prompts[1].map(textOf).join('\n')).not.toContain(
+      'First question'
+    )
+  })
+
+  test('answers images with the vision model and captions them afterwards', async () => {
+    const models = makeScriptedModels({
+      vision: ['What a cute drawing!', 'A drawing of Teto holding bread'],
+    })
+    const modelsLive = makeScriptedModelsLive(models)
+    const thread = makeThread()
+
+    const { answered, captioned, checkpoints } = await Effect.gen(function* () {
+      const llm = yield* LLMContext
+      const { checkpointer } = yield* ConversationStore
+
+      const answered = yield* Effect.promise(() =>
+        invoke(
+          llm,
+          [
+            { type: 'text', text: 'Look at this' },
+            {
+              type: 'image_url',
+              image_url: { url: 'data:image/jpeg;base64,AAAA' },
+            },
+          ],
+          thread,
+          true
+        )
+      )
+      yield* captionThreadImages(llm, thread, String(answered.messages[0]?.id))
+
+      const captioned = yield* Effect.promise(() => llm.getState(thread))
+      const checkpoints = yield* Effect.promise(async () => {
+        const tuples = []
+        for await (const tuple of checkpointer.list(thread)) tuples.push(tuple)
+        return tuples
+      })
+      return { answered, captioned, checkpoints }
+    }).pipe(
+      Effect.provide(
+        Layer.mergeAll(
+          makeLLMLayer(modelsLive),
+          modelsLive,
+          ConversationStoreLive
+        )
+      ),
+      Effect.runPromise
+    )
+
+    expect(models.conversation.prompts).toHaveLength(0)
+    expect(models.vision.prompts).toHaveLength(2)
+    expect(textOf(answered.messages.at(-1))).toBe('What a cute drawing!')
+
+    // The image itself isn't kept in the thread
+    const question = textOf(captioned.values.messages[0])
+    expect(question).toContain('A drawing of Teto holding bread')
+    expect(question).not.toContain('image_url')
+
+    // Nor in the earlier checkpoints
+    expect(checkpoints).toHaveLength(1)
+    expect(JSON.stringify(checkpoints)).not.toContain('AAAA')
+  })
+})
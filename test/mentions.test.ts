@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test'
+import { Collection, type Message } from 'discord.js'
+import {
+  STRICT_ALLOWED_MENTIONS,
+  getAllowedMentions,
+  resolveMentions,
+  restoreMentions,
+  sanitizeMentions,
+} from '../src/services/messages/mentions'
+
+const BOT = { id: '100', displayName: 'Teto' }
+const AUTHOR = { id: '400', displayName: 'tester' }
+const MIKU = { id: '500', displayName: 'miku01' }
+
+const makeMessage = ({ withGuild = true } = {}) => {
+  const guild = {
+    id: '200',
+    members: {
+      cache: new Collection([
+        [AUTHOR.id, { displayName: 'Tester' }],
+        [MIKU.id, { displayName: 'Miku' }],
+      ]),
+    },
+    channels: {
+      cache: new Collection([['600', { id: '600', name: 'general' }]]),
+    },
+    roles: { cache: new Collection([['700', { name: 'Moderators' }]]) },
+    emojis: {
+      cache: new Collection([
+        [
+          '800',
+          { name: 'teto', available: true, toString: () => '<:teto:800>' },
+        ],
+      ]),
+    },
+  }
+
+  return {
+    author: AUTHOR,
+    member: { displayName: 'Tester' },
+    guild: withGuild ? guild : null,
+    client: { user: BOT, channels: { cache: new Collection() } },
+    mentions: {
+      users: new Collection([
+        [MIKU.id, MIKU],
+        [BOT.id, BOT],
+      ]),
+      members: new Collection([[MIKU.id, { displayName: 'Miku' }]]),
+    },
+  } as unknown as Message
+}
+
+describe('resolveMentions', () => {
+  test('shows users, channels, roles and emoji by name', () => {
+    const content = 'Hi <@500> and <@!400>, see <#600> <@&700> <:teto:800>'
+
+    expect(resolveMentions(content, makeMessage())).toBe(
+      'Hi @Miku and @Tester, see #general @Moderators :teto:'
+    )
+  })
+
+  test('names what it cannot find as unknown', () => {
+    const content = '<@999> <#999> <@&999> <a:dance:999>'
+
+    expect(resolveMentions(content, makeMessage())).toBe(
+      '@unknown-user #unknown-channel @unknown-role :dance:'
+    )
+  })
+})
+
+describe('restoreMentions', () => {
+  test('restores participants, channels and emoji', () => {
+    const content = '@Miku and @Tester, meet in #general :teto:'
+
+    expect(restoreMentions(content, makeMessage())).toBe(
+      '<@500> and <@400>, meet in <#600> <:teto:800>'
+    )
+  })
+
+  test('leaves roles, the bot and names it does not know alone', () => {
+    const content = '@Moderators @Teto @Rin #random :miku:'
+
+    expect(restoreMentions(content, makeMessage())).toBe(content)
+  })
+
+  test('skips inline code and code blocks', () => {
+    const content = 'Use `@Miku` or\n```\n#general @Tester\n```\nthanks @Miku'
+
+    expect(restoreMentions(content, makeMessage())).toBe(
+      'Use `@Miku` or\n```\n#general @Tester\n```\nthanks <@500>'
+    )
+  })
+
+  test('only restores whole names', () => {
+    const content = 'email@Miku.dev and @Mikuo'
+
+    expect(restoreMentions(content, makeMessage())).toBe(content)
+  })
+
+  test('leaves direct messages alone', () => {
+    const content = '@Miku'
+
+    expect(restoreMentions(content, makeMessage({ withGuild: false }))).toBe(
+      content
+    )
+  })
+})
+
+describe('sanitizeMentions', () => {
+  test('breaks up @everyone and @here', () => {
+    expect(sanitizeMentions('@everyone and @here, listen!')).toBe(
+      '@\u200Beveryone and @\u200Bhere, listen!'
+    )
+  })
+
+  test('turns role pings into plain role names', () => {
+    const { guild } = makeMessage()
+
+    expect(sanitizeMentions('Ping <@&700> and <@&999>', guild)).toBe(
+      'Ping @\u200BModerators and @\u200Brole'
+    )
+  })
+
+  test('keeps user pings', () => {
+    expect(sanitizeMentions('Hi <@500>!')).toBe('Hi <@500>!')
+  })
+})
+
+describe('getAllowedMentions', () => {
+  test('allows user pings only in guilds that opted in', () => {
+    expect(getAllowedMentions('guild-pings')).toEqual({
+      parse: ['users'],
+      repliedUser: true,
+    })
+    expect(getAllowedMentions('200')).toEqual(STRICT_ALLOWED_MENTIONS)
+    expect(getAllowedMentions(null)).toEqual(STRICT_ALLOWED_MENTIONS)
+  })
+
+  test('never allows @everyone, @here or role pings', () => {
+    for (const guildId of ['guild-pings', '200', null]) {
+      const { parse = [] } = getAllowedMentions(guildId)
+      expect(parse).not.toContain('everyone')
+      expect(parse).not.toContain('roles')
+    }
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test'
+import { BaseChatModel } from '@langchain/core/language_models/chat_models'
+import { AIMessage, HumanMessage } from '@langchain/core/messages'
+import type { ChatResult } from '@langchain/core/outputs'
+import { ScriptedChatModel, withModelFallbacks } from '../src/services/llm'
+
+// Answers after a second unless the call is aborted first
+class SlowChatModel extends BaseChatModel {
+  calls = 0
+
+  _llmType() {
+    return 'slow'
+  }
+
+  async _generate(
+    _messages: unknown,
+    options: this['ParsedCallOptions']
+  ): Promise<ChatResult> {
+    this.calls++
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, 1000)
+      options.signal?.addEventListener('abort', () => {
+        clearTimeout(timer)
+        reject(new Error('Aborted'))
+      })
+    })
+
+    const message = new AIMessage('Too late')
+    return { generations: [{ text: 'Too late', message }] }
+  }
+}
+
+const ask = (model: ReturnType<typeof withModelFallbacks>) =>
+  model.invoke([new HumanMessage('Hello Teto')])
+
+describe('model fallbacks', () => {
+  test('moves on to the next model when one fails', async () => {
+    const broken = new ScriptedChatModel()
+    const backup = new ScriptedChatModel(['Hi from the backup!'])
+
+    const response = await ask(
+      withModelFallbacks('conversation', [
+        { name: 'broken', model: broken, timeoutMs: 1000 },
+        { name: 'backup', model: backup, timeoutMs: 1000 },
+      ])
+    )
+
+    expect(response.content).toBe('Hi from the backup!')
+    expect(broken.prompts).toHaveLength(1)
+    expect(backup.prompts).toHaveLength(1)
+  })
+
+  test('moves on to the next model when one times out', async () => {
+    const slow = new SlowChatModel({})
+    const backup = new ScriptedChatModel(['Hi from the backup!'])
+
+    const started = Date.now()
+    const response = await ask(
+      withModelFallbacks('conversation', [
+        { name: 'slow', model: slow, timeoutMs: 50 },
+        { name: 'backup', model: backup, timeoutMs: 1000 },
+      ])
+    )
+
+    expect(response.content).toBe('Hi from the backup!')
+    expect(slow.calls).toBe(1)
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+
+  test('fails with the first error once every model failed', async () => {
+    const model = withModelFallbacks('conversation', [
+      { name: 'first', model: new ScriptedChatModel(), timeoutMs: 1000 },
+      { name: 'second', model: new ScriptedChatModel(), timeoutMs: 1000 },
+    ])
+
+    await expect(ask(model)).rejects.toThrow('ScriptedChatModel ran out')
+  })
+})
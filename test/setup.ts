@@ -0,0 +1,27 @@
+/**
+ * Test environment, loaded before every test file (see bunfig.toml)
+ * Runs the bot offline: in-memory backend and conversations, no tracing
+ */
+
+// Production, so message credits are enforced as they are for users
+process.env.NODE_ENV = 'production'
+process.env.API_MODE = 'memory'
+process.env.DATABASE_URL = ''
+process.env.LANGSMITH_TRACING = 'false'
+process.env.LANGCHAIN_TRACING_V2 = 'false'
+// A guild that opted in to user pings, the harness guild didn't
+process.env.USER_MENTION_GUILD_IDS = 'guild-pings'
+
+// Required by the config, never used offline
+for (const name of [
+  'BOT_API_KEY',
+  'BOT_TOKEN',
+  'CLIENT_ID',
+  'TOPGG_TOKEN',
+  'LANGSMITH_API_KEY',
+  'LANGSMITH_PROJECT',
+  'OPENROUTER_API_KEY',
+  'OPENROUTER_BASE_URL',
+]) {
+  process.env[name] ??= 'test'
+}